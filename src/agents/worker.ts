@@ -1,12 +1,17 @@
 import type { LanguageModel } from "ai";
 import type { z } from "zod";
-import { type AgentContext, CoreAgent } from "../core/agent";
+import {
+    type AgentContext,
+    type AgentRunOptions,
+    CoreAgent,
+} from "../core/agent";
 import { getBeads } from "../core/beads";
 import { getFormulaRegistry } from "../core/formula";
 import { logger } from "../core/logger";
-import { jsonSchemaToZod } from "../core/schema-utils";
+import { getSchemaVersion, jsonSchemaToZod } from "../core/schema-utils";
 import { runCommandTool } from "../tools/shell";
 import {
+    createAttachArtifactTool,
     createDelegateTaskTool,
     createReportProgressTool,
     createSubmitWorkTool,
@@ -29,6 +34,7 @@ export class WorkerAgent extends CoreAgent {
         this.registerSdkTool("submit_work", createSubmitWorkTool({}));
         this.registerSdkTool("report_progress", createReportProgressTool({}));
         this.registerSdkTool("delegate_task", createDelegateTaskTool({}));
+        this.registerSdkTool("attach_artifact", createAttachArtifactTool({}));
     }
 
     protected override async getDynamicTools(
@@ -36,6 +42,7 @@ export class WorkerAgent extends CoreAgent {
     ): Promise<Record<string, import("ai").Tool>> {
         const ctx = context || {};
         let outputSchema: z.ZodTypeAny | undefined;
+        let schemaVersion: string | undefined;
 
         if (ctx.beadId) {
             try {
@@ -52,6 +59,7 @@ export class WorkerAgent extends CoreAgent {
                     const step = formula?.steps.find((s) => s.id === stepIdx);
                     if (step?.output_schema) {
                         outputSchema = jsonSchemaToZod(step.output_schema);
+                        schemaVersion = getSchemaVersion(step.output_schema);
                         logger.debug(
                             `[Worker] Loaded output schema for ${ctx.beadId} from ${formulaName}:${stepIdx}`,
                         );
@@ -65,17 +73,19 @@ export class WorkerAgent extends CoreAgent {
         }
 
         return {
-            submit_work: createSubmitWorkTool(ctx, outputSchema),
+            submit_work: createSubmitWorkTool(ctx, outputSchema, schemaVersion),
             report_progress: createReportProgressTool(ctx),
             delegate_task: createDelegateTaskTool(ctx),
+            attach_artifact: createAttachArtifactTool(ctx),
         };
     }
 
     override async run(
         prompt: string,
         context?: Record<string, unknown>,
+        options?: AgentRunOptions,
     ): Promise<string> {
-        return super.run(prompt, context);
+        return super.run(prompt, context, options);
     }
 
     protected override getSystemPrompt(defaultPrompt: string): string {
@@ -86,6 +96,7 @@ export class WorkerAgent extends CoreAgent {
         - Use filesystem tools to explore and write code.
         - Run tests with run_command if available.
         - Keep the user informed with report_progress.
+        - Attach files other steps or the reviewer need (reports, patches, datasets) with attach_artifact.
         - Submit your work when done with submit_work.
         `;
     }
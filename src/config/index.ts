@@ -45,6 +45,12 @@ export async function loadConfig(): Promise<CitadelConfig> {
 	const rawConfig = {
 		...userConfig,
 		env: process.env.CITADEL_ENV || userConfig.env,
+		cassette: process.env.CITADEL_CASSETTE
+			? {
+					path: process.env.CITADEL_CASSETTE,
+					mode: process.env.CITADEL_CASSETTE_MODE,
+				}
+			: userConfig.cassette,
 		providers: {
 			// Start simple
 			ollama: {
@@ -1,47 +1,50 @@
 import { z } from "zod";
 
-export const ConfigSchema = z.object({
+// Kinds of LLM endpoint. google and bedrock are reached through their OpenAI-compatible APIs.
+export const ProviderTypeSchema = z.enum([
+	"openai",
+	"anthropic",
+	"openai-compatible",
+	"ollama",
+	"google",
+	"azure",
+	"bedrock",
+	"mock",
+]);
+
+const ProviderSchema = z.object({
+	// Defaults to the entry's name when that is a type (`openai: { ... }`)
+	type: ProviderTypeSchema.optional(),
+	baseURL: z.string().optional(),
+	apiKey: z.string().optional(),
+	// Environment variable holding the API key
+	apiKeyEnv: z.string().optional(),
+	headers: z.record(z.string(), z.string()).optional(),
+	// azure: https://<resourceName>.openai.azure.com/openai (default: AZURE_RESOURCE_NAME)
+	resourceName: z.string().optional(),
+	// bedrock: https://bedrock-runtime.<region>.amazonaws.com/openai/v1 (default: AWS_REGION)
+	region: z.string().optional(),
+	// mock: scripted offline model (see MockScript)
+	script: z.string().optional(),
+});
+
+const AgentSchema = z.object({
+	provider: z.string(), // Name of a `providers` entry, or a provider type
+	model: z.string(),
+	mcpTools: z.array(z.string()).optional(), // Format: ["server:tool", "server:*"]
+	mcpResources: z.record(z.string(), z.array(z.string())).optional(),
+});
+
+const ConfigObjectSchema = z.object({
 	env: z.enum(["development", "production"]).default("development"),
 
-	providers: z.object({
-		openai: z
-			.object({
-				apiKey: z.string().optional(),
-			})
-			.optional(),
-		anthropic: z
-			.object({
-				apiKey: z.string().optional(),
-			})
-			.optional(),
-		ollama: z
-			.object({
-				baseURL: z.string().default("http://localhost:11434/v1"),
-				apiKey: z.string().default("ollama"),
-			})
-			.optional(),
-	}),
+	// Named LLM endpoints that agents reference by name
+	providers: z.record(z.string(), ProviderSchema),
 
 	agents: z.object({
-		router: z.object({
-			provider: z.enum(["openai", "anthropic", "ollama"]),
-			model: z.string(),
-			mcpTools: z.array(z.string()).optional(), // Format: ["server:tool", "server:*"]
-			mcpResources: z.record(z.string(), z.array(z.string())).optional(),
-		}),
-		worker: z.object({
-			provider: z.enum(["openai", "anthropic", "ollama"]),
-			model: z.string(),
-			mcpTools: z.array(z.string()).optional(),
-			mcpResources: z.record(z.string(), z.array(z.string())).optional(),
-		}),
-
-		gatekeeper: z.object({
-			provider: z.enum(["openai", "anthropic", "ollama"]),
-			model: z.string(),
-			mcpTools: z.array(z.string()).optional(),
-			mcpResources: z.record(z.string(), z.array(z.string())).optional(),
-		}),
+		router: AgentSchema,
+		worker: AgentSchema,
+		gatekeeper: AgentSchema,
 	}),
 
 	mcpServers: z
@@ -62,10 +65,30 @@ export const ConfigSchema = z.object({
 		)
 		.optional(),
 
+	// Record every LLM call to a cassette file, or replay one offline (env: CITADEL_CASSETTE, CITADEL_CASSETTE_MODE)
+	cassette: z
+		.object({
+			mode: z.enum(["record", "replay"]).default("replay"),
+			path: z.string(),
+		})
+		.optional(),
+
+	// USD per million tokens, keyed by "provider/model" or model name (merged over the defaults)
+	pricing: z
+		.record(
+			z.string(),
+			z.object({
+				input: z.number(),
+				output: z.number(),
+			}),
+		)
+		.optional(),
+
 	worker: z.object({
 		timeout: z.number().default(300),
 		maxRetries: z.number().default(3),
-		costLimit: z.number().default(1.0),
+		costLimit: z.number().default(1.0), // USD per bead
+		moleculeCostLimit: z.number().default(10.0), // USD per molecule
 		min_workers: z.number().default(1),
 		max_workers: z.number().default(5),
 		load_factor: z.number().default(1.0),
@@ -73,16 +96,27 @@ export const ConfigSchema = z.object({
 
 	gatekeeper: z
 		.object({
+			timeout: z.number().default(300),
+			maxRetries: z.number().default(3),
 			min_workers: z.number().default(1),
 			max_workers: z.number().default(5),
 			load_factor: z.number().default(1.0),
 		})
 		.default({
+			timeout: 300,
+			maxRetries: 3,
 			min_workers: 1,
 			max_workers: 5,
 			load_factor: 1.0,
 		}),
 
+	// Ctrl+C / SIGTERM / `citadel drain`: how long in-flight tickets may finish (seconds)
+	drain: z
+		.object({
+			gracePeriod: z.number().default(60),
+		})
+		.default({ gracePeriod: 60 }),
+
 	beads: z.object({
 		path: z.string().default(".beads"),
 		binary: z.string().default("bd"),
@@ -95,20 +129,58 @@ export const ConfigSchema = z.object({
 		})
 		.default({ maxLogs: 1000 }),
 
-	context: z.object({
-		maxHistoryMessages: z.number().default(50),
-		maxToolResponseSize: z.number().default(50000), // Characters
-		maxMessageSize: z.number().default(100000), // Characters
-	}).default({
-		maxHistoryMessages: 20,
-		maxToolResponseSize: 50000,
-		maxMessageSize: 100000,
-	}),
+	context: z
+		.object({
+			maxHistoryMessages: z.number().default(50),
+			maxToolResponseSize: z.number().default(50000), // Characters
+			maxMessageSize: z.number().default(100000), // Characters
+		})
+		.default({
+			maxHistoryMessages: 20,
+			maxToolResponseSize: 50000,
+			maxMessageSize: 100000,
+		}),
+});
+
+export const ConfigSchema = ConfigObjectSchema.superRefine((config, ctx) => {
+	for (const [name, provider] of Object.entries(config.providers)) {
+		if (!providerTypeOf(name, provider)) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["providers", name, "type"],
+				message: `Provider "${name}" needs a type`,
+			});
+		}
+	}
+	for (const [role, agent] of Object.entries(config.agents)) {
+		if (!config.providers[agent.provider] && !providerTypeOf(agent.provider)) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["agents", role, "provider"],
+				message: `Unknown provider "${agent.provider}"`,
+			});
+		}
+	}
 });
 
 export type CitadelConfig = z.infer<typeof ConfigSchema>;
 export type CitadelConfigInput = z.input<typeof ConfigSchema>;
 export type AgentRole = keyof CitadelConfig["agents"];
+export type ProviderConfig = z.infer<typeof ProviderSchema>;
+export type ProviderType = z.infer<typeof ProviderTypeSchema>;
+
+/**
+ * The type of a named provider: its `type`, else its name when that is a
+ * type. Agents may name a type without configuring an entry.
+ */
+export function providerTypeOf(
+	name: string,
+	provider?: ProviderConfig,
+): ProviderType | undefined {
+	if (provider?.type) return provider.type;
+	const parsed = ProviderTypeSchema.safeParse(name);
+	return parsed.success ? parsed.data : undefined;
+}
 
 export function defineConfig(config: CitadelConfigInput): CitadelConfigInput {
 	return config;
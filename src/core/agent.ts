@@ -19,7 +19,10 @@ import { getIgnoredPatterns } from "./gitignore";
 import { getInstructionService } from "./instruction";
 import { getAgentModel } from "./llm";
 import { logger } from "./logger";
-import { getBeads, type BeadsClient } from "./beads";
+import { getBeads, type Bead, type BeadsClient } from "./beads";
+import { calculateCost, getCostLedger, getModelPrice, getMoleculeId } from "./costs";
+import type { TokenUsage } from "./queue";
+import { collectSecrets, getTranscriptStore } from "./transcripts";
 
 export interface AgentContext {
     beadId?: string;
@@ -31,6 +34,13 @@ export interface ToolContext extends AgentContext {
     messages: ModelMessage[];
 }
 
+export interface AgentRunOptions {
+    /** Aborts the run: the pending LLM call, MCP tool call or shell command, then the loop. */
+    signal?: AbortSignal;
+    /** Ticket attempt whose transcript records every message of the run (needs context.beadId). */
+    transcript?: { ticketId: string; attempt: number };
+}
+
 export abstract class CoreAgent {
     protected role: AgentRole;
     protected model: LanguageModel;
@@ -39,6 +49,8 @@ export abstract class CoreAgent {
     protected schemas: Record<string, z.ZodTypeAny> = {};
     protected requiresExplicitCompletion = false;
     protected beadsClient?: BeadsClient;
+    // Token usage of the latest run, kept up to date while it runs
+    public lastUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
 
     constructor(role: AgentRole, model?: LanguageModel, beadsClient?: BeadsClient) {
         this.role = role;
@@ -56,14 +68,102 @@ export abstract class CoreAgent {
         return {};
     }
 
+    /**
+     * Records the cost of one LLM call against the bead and its molecule.
+     * Worker and gatekeeper runs throw a BudgetExceededError once either
+     * budget (worker.costLimit, worker.moleculeCostLimit) is spent; routing
+     * is charged but never stopped. Returns the cost of the call.
+     */
+    private chargeUsage(
+        usage: Partial<TokenUsage>,
+        context: AgentContext | undefined,
+        moleculeId: string | null,
+    ): number {
+        const inputTokens = usage.inputTokens || 0;
+        const outputTokens = usage.outputTokens || 0;
+        if (!context?.beadId || inputTokens + outputTokens === 0) return 0;
+
+        const { agents, worker, pricing } = getConfig();
+        const { provider = "unknown", model = "unknown" } = agents[this.role];
+        const cost = calculateCost(getModelPrice(provider, model, pricing), {
+            inputTokens,
+            outputTokens,
+        });
+
+        const ledger = getCostLedger();
+        ledger.record({
+            bead_id: context.beadId,
+            molecule_id: moleculeId,
+            role: this.role,
+            provider,
+            model,
+            input_tokens: inputTokens,
+            output_tokens: outputTokens,
+            cost,
+        });
+        // A router failure would stall the whole routing cycle, not just this bead
+        if (this.role !== "router") {
+            ledger.checkBudget(context.beadId, moleculeId, {
+                bead: worker?.costLimit,
+                molecule: worker?.moleculeCostLimit,
+            });
+        }
+        return cost;
+    }
+
+    /**
+     * Top-level molecule of the bead being worked on, which its costs are
+     * charged to. Falls back to the bead's parent if it can't be looked up.
+     */
+    private async resolveMoleculeId(context?: AgentContext): Promise<string | null> {
+        const bead = context?.bead as Bead | undefined;
+        if (!context?.beadId || !bead?.id) return null;
+        try {
+            return await getMoleculeId(bead, this.beadsClient || getBeads());
+        } catch (error) {
+            logger.warn(`[${this.role}] Could not resolve the molecule of ${bead.id}`, { error });
+            return bead.parent || bead.id;
+        }
+    }
+
+    /**
+     * Returns a function appending messages to the transcript of a ticket
+     * attempt. A no-op without one; write errors never fail the run.
+     */
+    private openTranscript(
+        context?: AgentContext,
+        transcript?: AgentRunOptions["transcript"],
+    ): (message: ModelMessage) => Promise<void> {
+        const beadId = context?.beadId;
+        if (!beadId || !transcript) return async () => { };
+
+        const store = getTranscriptStore();
+        const secrets = collectSecrets(getConfig());
+        return async (message) => {
+            try {
+                await store.append(
+                    beadId,
+                    transcript.ticketId,
+                    transcript.attempt,
+                    { timestamp: Date.now(), agent: this.role, message },
+                    secrets,
+                );
+            } catch (error) {
+                logger.warn(`[${this.role}] Failed to write transcript for ${beadId}`, { error });
+            }
+        };
+    }
+
     private mcpLoaded = false;
     protected async executeGenerateText(
         messages: ModelMessage[],
+        signal?: AbortSignal,
     ): Promise<Awaited<ReturnType<typeof generateText>>> {
         return generateText({
             model: this.model,
             tools: { ...this.tools, ...this.dynamicTools }, // Merge static and dynamic
             messages: messages,
+            abortSignal: signal,
         });
     }
 
@@ -88,7 +188,7 @@ export abstract class CoreAgent {
                     // biome-ignore lint/suspicious/noExplicitAny: AI SDK tool registration bridge
                     jsonSchema(tool.inputSchema) as any,
                     // biome-ignore lint/suspicious/noExplicitAny: arguments are generic for MCP
-                    async (args: any) => {
+                    async (args: any, options) => {
                         // Middleware: Inject .gitignore patterns for filesystem search
                         if (
                             ["search_files", "directory_tree"].includes(tool.name) &&
@@ -112,7 +212,7 @@ export abstract class CoreAgent {
                             );
                         }
 
-                        const result = await mcp.callTool(tool.serverName, tool.name, args);
+                        const result = await mcp.callTool(tool.serverName, tool.name, args, options?.abortSignal);
                         return result;
                     },
                 );
@@ -125,7 +225,7 @@ export abstract class CoreAgent {
         name: string,
         description: string,
         schema: T,
-        execute: (args: z.infer<T>) => Promise<R>,
+        execute: (args: z.infer<T>, options?: { abortSignal?: AbortSignal }) => Promise<R>,
     ) {
         const options = {
             description,
@@ -276,7 +376,12 @@ export abstract class CoreAgent {
      * - Runs a manual loop interacting with the LLM
      * - Handles tool execution manually for better control/logging
      */
-    async run(prompt: string, context?: AgentContext): Promise<string> {
+    async run(
+        prompt: string,
+        context?: AgentContext,
+        options: AgentRunOptions = {},
+    ): Promise<string> {
+        const { signal } = options;
         logger.info(`[${this.role}] Running...`, { role: this.role });
 
         // Ensure MCP tools are loaded
@@ -311,6 +416,10 @@ export abstract class CoreAgent {
             },
         ];
 
+        // The history below gets pruned; the transcript keeps every message
+        const record = this.openTranscript(context, options.transcript);
+        for (const message of messages) await record(message);
+
         let finalResult = "";
 
 
@@ -318,14 +427,19 @@ export abstract class CoreAgent {
         let didRemindForCompletion = false;
         let completionToolCalled = false;
 
-        const totalUsage = {
+        const totalUsage: TokenUsage = {
             inputTokens: 0,
             outputTokens: 0,
             totalTokens: 0,
         };
+        this.lastUsage = totalUsage;
+        let totalCost = 0;
+        const moleculeId = await this.resolveMoleculeId(context);
 
         // Max steps 50 to prevent infinite loops but allow complex tasks
         for (let i = 0; i < 50; i++) {
+            signal?.throwIfAborted();
+
             // Prune History
             const config = getConfig();
             const { maxHistoryMessages = 20, maxToolResponseSize = 50000, maxMessageSize = 100000 } = config.context || {};
@@ -361,7 +475,7 @@ export abstract class CoreAgent {
                 }
             }
 
-            const result = await this.executeGenerateText(messages);
+            const result = await this.executeGenerateText(messages, signal);
 
             console.log('DEBUG: result.usage', JSON.stringify(result.usage));
 
@@ -370,6 +484,8 @@ export abstract class CoreAgent {
                 totalUsage.inputTokens += result.usage.inputTokens || 0;
                 totalUsage.outputTokens += result.usage.outputTokens || 0;
                 totalUsage.totalTokens += result.usage.totalTokens || 0;
+                // Stops the run once the bead or molecule budget is spent
+                totalCost += this.chargeUsage(result.usage, context, moleculeId);
             }
 
             // Construct Assistant Message from result
@@ -397,7 +513,9 @@ export abstract class CoreAgent {
                     logger.warn(`[${this.role}] Message size ${contentStr.length} exceeds limit ${maxMessageSize}. Truncating logic not fully implemented for mixed content, but proceeding.`);
                     // TODO: Implement smart truncation for assistant messages if needed
                 }
-                messages.push({ role: "assistant", content: assistantContent });
+                const assistantMessage: ModelMessage = { role: "assistant", content: assistantContent };
+                messages.push(assistantMessage);
+                await record(assistantMessage);
             }
 
             finalResult = result.text;
@@ -421,12 +539,14 @@ export abstract class CoreAgent {
                     logger.info(
                         `[${this.role}] Agent exited without completion tool. Providing reminder.`,
                     );
-                    messages.push({
+                    const reminder: ModelMessage = {
                         role: "user",
                         content: `You provided a response but did not call a completion tool (e.g., submit_work, approve_work, reject_work, fail_work). 
 If you have finished your task, you MUST call the appropriate tool to finalize the workflow. 
 If you are still working, continue with your next step.`,
-                    });
+                    };
+                    messages.push(reminder);
+                    await record(reminder);
                     didRemindForCompletion = true;
                     continue;
                 }
@@ -438,13 +558,17 @@ If you are still working, continue with your next step.`,
             let finished = false;
 
             for (const tc of toolCalls) {
+                // Tool boundary: stop before touching anything else if cancelled
+                signal?.throwIfAborted();
+
                 logger.info(`[${this.role}] Executing tool: ${tc.toolName}`, {
                     tool: tc.toolName,
                     full_tc: tc,
                 });
 
                 let toolName = tc.toolName;
-                let toolItem = this.tools[toolName];
+                // Dynamic tools are bound to the current bead (e.g. submit_work with its output schema)
+                let toolItem = this.dynamicTools[toolName] || this.tools[toolName];
 
                 if (!toolItem && toolName.length >= 5) {
                     const matches = Object.keys(this.tools).filter(
@@ -496,7 +620,9 @@ If you are still working, continue with your next step.`,
                 try {
                     // Internal execution
                     // Strictly validate input against schema if it's a Zod schema
-                    const schema = this.schemas[toolName];
+                    const schema = this.dynamicTools[toolName]
+                        ? (toolItem as { inputSchema?: z.ZodTypeAny }).inputSchema
+                        : this.schemas[toolName];
 
                     const validatedInput =
                         schema && "parse" in schema && typeof schema.parse === "function"
@@ -505,6 +631,7 @@ If you are still working, continue with your next step.`,
                     const toolContext = {
                         toolCallId: tc.toolCallId,
                         messages,
+                        abortSignal: signal,
                         ...(context || {}),
                     };
                     // --- ENFORCEMENT POINT (Input) ---
@@ -629,6 +756,9 @@ If you are still working, continue with your next step.`,
                         output: toolOutput,
                     } as ToolResultPart);
                 } catch (error: unknown) {
+                    // Aborted mid-tool: stop the run rather than feeding the error back to the model
+                    signal?.throwIfAborted();
+
                     let errorMessage =
                         error instanceof Error ? error.message : String(error);
 
@@ -661,7 +791,9 @@ If you are still working, continue with your next step.`,
                 }
             }
 
-            messages.push({ role: "tool", content: toolResults });
+            const toolMessage: ModelMessage = { role: "tool", content: toolResults };
+            messages.push(toolMessage);
+            await record(toolMessage);
 
             if (finished) {
                 logger.info(`[${this.role}] Task finished explicitly via tool.`);
@@ -674,7 +806,7 @@ If you are still working, continue with your next step.`,
         // Report Token Usage if linked to a bead
         if (context?.beadId) {
             try {
-                const summary = `**Agent Execution Summary**\n- **Role**: ${this.role}\n- **Input Tokens**: ${totalUsage.inputTokens}\n- **Output Tokens**: ${totalUsage.outputTokens}\n- **Total Tokens**: ${totalUsage.totalTokens}`;
+                const summary = `**Agent Execution Summary**\n- **Role**: ${this.role}\n- **Input Tokens**: ${totalUsage.inputTokens}\n- **Output Tokens**: ${totalUsage.outputTokens}\n- **Total Tokens**: ${totalUsage.totalTokens}\n- **Cost**: $${totalCost.toFixed(4)}`;
                 // Usage injected client or global singleton
                 const client = this.beadsClient || getBeads();
                 client.addComment(context.beadId, summary).catch(err => {
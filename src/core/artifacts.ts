@@ -0,0 +1,179 @@
+import { existsSync } from "node:fs";
+import {
+	copyFile,
+	mkdir,
+	readFile,
+	realpath,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { extname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import type { Bead } from "./beads";
+import { getGlobalSingleton, setGlobalSingleton } from "./registry";
+
+export interface Artifact {
+	name: string;
+	// File name inside the bead's artifact directory
+	file: string;
+	// Absolute path of the stored file
+	path: string;
+	size: number;
+	ticket_id?: string;
+	description?: string;
+	created_at: number;
+}
+
+export type ArtifactSource =
+	| { content: string; extension?: string }
+	| { path: string };
+
+type ArtifactOwner = Pick<Bead, "id" | "parent">;
+type Manifest = Record<string, Omit<Artifact, "path">>;
+
+const ARTIFACT_NAME = /^[A-Za-z0-9_-]+$/;
+const MANIFEST_FILE = "manifest.json";
+
+/**
+ * Real path of a file inside `root`, following symlinks, so a link in the
+ * project cannot expose files outside it. Throws for anything else.
+ */
+export async function resolveProjectFile(
+	root: string,
+	path: string,
+): Promise<string> {
+	let real: string;
+	try {
+		real = await realpath(resolve(root, path));
+	} catch {
+		throw new Error(`Cannot attach ${path}: file not found`);
+	}
+
+	const rel = relative(await realpath(root), real);
+	if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+		throw new Error(
+			`Cannot attach ${path}: only project files can be attached`,
+		);
+	}
+	return real;
+}
+
+/**
+ * Files produced by steps (reports, patches, datasets), stored under
+ * `.citadel/artifacts/<moleculeId>/<beadId>/` next to a manifest.
+ * Attaching a name again replaces the previous file.
+ */
+export class ArtifactStore {
+	private root: string;
+
+	constructor(root?: string) {
+		this.root = root || resolve(process.cwd(), ".citadel", "artifacts");
+	}
+
+	/**
+	 * Beads outside a molecule use their own id as the molecule id.
+	 */
+	getDirectory(bead: ArtifactOwner): string {
+		return join(this.root, bead.parent || bead.id, bead.id);
+	}
+
+	async attach(
+		bead: ArtifactOwner,
+		name: string,
+		source: ArtifactSource,
+		options: { ticketId?: string; description?: string } = {},
+	): Promise<Artifact> {
+		if (!ARTIFACT_NAME.test(name)) {
+			throw new Error(
+				`Invalid artifact name '${name}' (use letters, digits, '-' and '_')`,
+			);
+		}
+
+		const dir = this.getDirectory(bead);
+		await mkdir(dir, { recursive: true });
+
+		const extension =
+			"path" in source
+				? extname(source.path)
+				: source.extension
+					? `.${source.extension.replace(/^\./, "")}`
+					: ".txt";
+		const file = `${name}${extension}`;
+		if (file === MANIFEST_FILE) {
+			throw new Error(`Artifact name '${name}' is reserved`);
+		}
+
+		if ("path" in source) {
+			await copyFile(source.path, join(dir, file));
+		} else {
+			await writeFile(join(dir, file), source.content);
+		}
+
+		const manifest = await this.readManifest(dir);
+		const previous = manifest[name];
+		if (previous && previous.file !== file) {
+			await rm(join(dir, previous.file), { force: true });
+		}
+		manifest[name] = {
+			name,
+			file,
+			size: (await stat(join(dir, file))).size,
+			ticket_id: options.ticketId,
+			description: options.description,
+			created_at: Date.now(),
+		};
+		await writeFile(
+			join(dir, MANIFEST_FILE),
+			JSON.stringify(manifest, null, 2),
+		);
+
+		return { ...manifest[name], path: join(dir, file) };
+	}
+
+	async list(bead: ArtifactOwner): Promise<Artifact[]> {
+		const dir = this.getDirectory(bead);
+		return Object.values(await this.readManifest(dir))
+			.map((entry) => ({ ...entry, path: join(dir, entry.file) }))
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	async get(bead: ArtifactOwner, name: string): Promise<Artifact | undefined> {
+		return (await this.list(bead)).find((a) => a.name === name);
+	}
+
+	async read(bead: ArtifactOwner, name: string): Promise<string> {
+		const artifact = await this.get(bead, name);
+		if (!artifact) throw new Error(`No artifact '${name}' on ${bead.id}`);
+		return readFile(artifact.path, "utf-8");
+	}
+
+	/**
+	 * Copies every artifact of a bead into `destination`. Returns the new paths.
+	 */
+	async export(bead: ArtifactOwner, destination: string): Promise<string[]> {
+		await mkdir(destination, { recursive: true });
+		const paths: string[] = [];
+		for (const artifact of await this.list(bead)) {
+			const target = join(destination, artifact.file);
+			await copyFile(artifact.path, target);
+			paths.push(target);
+		}
+		return paths;
+	}
+
+	private async readManifest(dir: string): Promise<Manifest> {
+		const file = join(dir, MANIFEST_FILE);
+		if (!existsSync(file)) return {};
+		return JSON.parse(await readFile(file, "utf-8")) as Manifest;
+	}
+}
+
+const ARTIFACTS_KEY = "artifact_store";
+
+export function getArtifactStore(): ArtifactStore {
+	return getGlobalSingleton(ARTIFACTS_KEY, () => new ArtifactStore());
+}
+
+export function setArtifactStoreInstance(store: ArtifactStore) {
+	setGlobalSingleton(ARTIFACTS_KEY, store);
+}
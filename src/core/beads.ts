@@ -1,4 +1,4 @@
-import { exec } from "node:child_process";
+import { execFile } from "node:child_process";
 import { resolve } from "node:path";
 import { promisify } from "node:util";
 import { z } from "zod";
@@ -7,7 +7,7 @@ import type { CitadelConfig } from "../config/schema";
 import { logger } from "./logger";
 import { getGlobalSingleton, setGlobalSingleton } from "./registry";
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 // --- Types ---
 
@@ -107,11 +107,16 @@ export class BeadsClient {
         this.binary = binary || config?.beads.binary || "bd";
     }
 
-    protected async runCommand(args: string, retryCount = 0): Promise<string> {
+    /**
+     * Runs bd without a shell: arguments are passed as-is, so titles and
+     * descriptions (which may hold piped LLM output) are never interpreted.
+     */
+    protected async runCommand(args: string[], retryCount = 0): Promise<string> {
         // Use --sandbox mode to avoid daemon issues in Docker containers
         // Sandbox mode operates in "direct mode" without requiring a daemon
         // Use --no-db to avoid SQLite crashes ("split stack overflow") and corruption
-        const command = `${this.binary} --sandbox --no-db ${args}`;
+        const fullArgs = ["--sandbox", "--no-db", ...args];
+        const command = `${this.binary} ${fullArgs.join(" ")}`;
 
         // Determine CWD: The folder containing .beads folder, or the basePath itself if it is the root
         const cwd = this.basePath.endsWith(".beads")
@@ -119,7 +124,7 @@ export class BeadsClient {
             : this.basePath;
 
         try {
-            const { stdout, stderr } = await this.execute(command, cwd);
+            const { stdout, stderr } = await this.execute(fullArgs, cwd);
             if (stderr && !stdout) {
                 // Some tools print info to stderr?
                 // Assuming strictly JSON output on stdout for --json commands
@@ -169,25 +174,25 @@ export class BeadsClient {
     }
 
     async init(): Promise<void> {
-        await this.runCommand("init"); // runCommand adds --no-db
+        await this.runCommand(["init"]); // runCommand adds --no-db
     }
 
     protected async execute(
-        command: string,
+        args: string[],
         cwd: string,
     ): Promise<{ stdout: string; stderr: string }> {
-        return execAsync(command, { cwd });
+        return execFileAsync(this.binary, args, { cwd });
     }
 
     async sync(): Promise<void> {
-        await this.runCommand(`sync`);
+        await this.runCommand(["sync"]);
         logger.info(`[Beads] Database synchronized`);
     }
 
     async doctor(): Promise<boolean> {
         try {
             // bd doctor returns JSON with overall_ok status
-            const output = await this.runCommand("doctor --json");
+            const output = await this.runCommand(["doctor", "--json"]);
             const result = JSON.parse(output);
             return result.overall_ok === true;
         } catch (_error) {
@@ -315,9 +320,9 @@ export class BeadsClient {
         else if (status === "open") cliStatus = "open";
 
         // If querying verify, we'll get in_progress and filter.
-        const flag = cliStatus ? `--status ${cliStatus}` : "";
+        const flag = cliStatus ? ["--status", cliStatus] : [];
 
-        const output = await this.runCommand(`list ${flag} --json`);
+        const output = await this.runCommand(["list", ...flag, "--json"]);
         const beads = this.parseRawList(output);
 
         if (status) {
@@ -327,25 +332,46 @@ export class BeadsClient {
     }
 
     async ready(): Promise<Bead[]> {
-        const output = await this.runCommand("ready --json");
+        const output = await this.runCommand(["ready", "--json"]);
         return this.parseRawList(output);
     }
 
     async getAll(): Promise<Bead[]> {
-        const output = await this.runCommand("list --json");
+        const output = await this.runCommand(["list", "--json"]);
         return this.parseRawList(output);
     }
 
+    /**
+     * All beads below the given parent (children, grandchildren, ...).
+     */
+    async getDescendants(id: string): Promise<Bead[]> {
+        const all = await this.getAll();
+        const result: Bead[] = [];
+        const queue = [id];
+        while (queue.length > 0) {
+            const parentId = queue.shift();
+            for (const bead of all) {
+                if (bead.parent === parentId && !result.includes(bead)) {
+                    result.push(bead);
+                    queue.push(bead.id);
+                }
+            }
+        }
+        return result;
+    }
+
     async get(id: string): Promise<Bead> {
-        const output = await this.runCommand(`show ${id} --json`);
+        const output = await this.runCommand(["show", id, "--json"]);
         return this.parseRaw(output);
     }
 
     async create(title: string, options: CreateOptions = {}): Promise<Bead> {
-        let args = `create "${title}" --json`;
-        if (options.priority !== undefined) args += ` -p ${options.priority}`;
-        if (options.parent) args += ` --parent ${options.parent}`;
-        if (options.type) args += ` --type ${options.type}`;
+        const args = ["create", title, "--json"];
+        if (options.priority !== undefined) {
+            args.push("-p", String(options.priority));
+        }
+        if (options.parent) args.push("--parent", options.parent);
+        if (options.type) args.push("--type", options.type);
 
         let description = options.description || "";
         if (options.context) {
@@ -354,9 +380,7 @@ export class BeadsClient {
         }
 
         if (description) {
-            // Escape double quotes for CLI
-            const escaped = description.replace(/"/g, '\\"');
-            args += ` --description "${escaped}"`;
+            args.push("--description", description);
         }
 
         // Note: bd CLI might not support setting everything at create time yet,
@@ -416,28 +440,28 @@ export class BeadsClient {
         }
 
         // Construct update args
-        let args = `update ${id}`;
+        const args = ["update", id];
 
         if (changes.status) {
             if (changes.status === "done") {
-                args += ` --status closed`;
+                args.push("--status", "closed");
             } else if (changes.status === "verify") {
-                args += ` --status in_progress --add-label verify`;
+                args.push("--status", "in_progress", "--add-label", "verify");
             } else if (changes.status === "in_progress") {
-                args += ` --status in_progress --remove-label verify`;
+                args.push("--status", "in_progress", "--remove-label", "verify");
             } else if (changes.status === "open") {
-                args += ` --status open --remove-label verify`;
+                args.push("--status", "open", "--remove-label", "verify");
             }
         }
 
         if (changes.acceptance_test) {
-            args += ` --acceptance "${changes.acceptance_test}"`;
+            args.push("--acceptance", changes.acceptance_test);
         }
 
         if (changes.labels) {
             // Append labels using --add-label
             for (const label of changes.labels) {
-                args += ` --add-label "${label}"`;
+                args.push("--add-label", label);
             }
         }
 
@@ -446,11 +470,15 @@ export class BeadsClient {
             // Remove labels using --remove-label
             // @ts-expect-error
             for (const label of changes.remove_labels) {
-                args += ` --remove-label "${label}"`;
+                args.push("--remove-label", label);
             }
         }
 
-        if (changes.context) {
+        if (changes.title !== undefined) {
+            args.push("--title", changes.title);
+        }
+
+        if (changes.context || changes.description !== undefined) {
             // Context is stored in description frontmatter.
             // We need to preserve the text body of description.
             // If we didn't fetch 'current' yet, we must.
@@ -463,16 +491,21 @@ export class BeadsClient {
             if (match?.[1]) {
                 descText = match[1];
             }
+            if (changes.description !== undefined) {
+                descText = changes.description;
+            }
 
-            const frontmatter = JSON.stringify(changes.context, null, 2);
-            const newDesc = `---\n${frontmatter}\n---\n${descText}`;
+            // Keep the current context when only the text body changes
+            const context = changes.context || current.context;
+            const newDesc = context
+                ? `---\n${JSON.stringify(context, null, 2)}\n---\n${descText}`
+                : descText;
 
-            const escaped = newDesc.replace(/"/g, '\\"');
-            args += ` --description "${escaped}"`;
+            args.push("--description", newDesc);
         }
 
         // ... other fields
-        args += ` --json`;
+        args.push("--json");
 
         const output = await this.runCommand(args);
         if (!output) {
@@ -502,12 +535,11 @@ export class BeadsClient {
 
     async addDependency(childId: string, parentId: string): Promise<void> {
         // bd dep add <child> <parent>
-        await this.runCommand(`dep add ${childId} ${parentId}`);
+        await this.runCommand(["dep", "add", childId, parentId]);
     }
 
     async addComment(id: string, comment: string): Promise<string> {
-        const escaped = comment.replace(/"/g, '\\"');
-        return this.runCommand(`comments add ${id} "${escaped}"`);
+        return this.runCommand(["comments", "add", id, comment]);
     }
 }
 
@@ -0,0 +1,289 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { LanguageModel } from "ai";
+import type { CitadelConfig } from "../config/schema";
+import { getGlobalSingleton } from "./registry";
+import { redactSecrets } from "./transcripts";
+
+// Provider-level model (what openai(...) and anthropic(...) return)
+type ProviderModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type CallOptions = Parameters<ProviderModel["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<ProviderModel["doGenerate"]>>;
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteInteraction {
+	provider: string;
+	model: string;
+	request: unknown;
+	response: Pick<
+		GenerateResult,
+		"content" | "finishReason" | "usage" | "providerMetadata" | "warnings"
+	>;
+}
+
+interface CassetteFile {
+	version: 1;
+	interactions: CassetteInteraction[];
+}
+
+/**
+ * True for the error a replayed call throws when the cassette has no matching request.
+ */
+export function isCassetteMismatchError(error: unknown): boolean {
+	return error instanceof Error && error.name === "CassetteMismatchError";
+}
+
+/**
+ * Call options as recorded: JSON only, without the abort signal and headers,
+ * and with secrets redacted.
+ */
+function normalizeRequest(params: CallOptions, secrets: string[]): unknown {
+	const { abortSignal: _signal, headers: _headers, ...request } = params;
+	return canonicalize(
+		redactSecrets(JSON.parse(JSON.stringify(request)), secrets),
+	);
+}
+
+// Sorted keys, so equal requests serialize equally
+function canonicalize(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(canonicalize);
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.map((key) => [
+					key,
+					canonicalize((value as Record<string, unknown>)[key]),
+				]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Path of the first difference between two JSON values (e.g. `prompt[1].content[0].text`).
+ */
+function firstDifference(
+	expected: unknown,
+	actual: unknown,
+	path = "",
+): string | null {
+	if (JSON.stringify(expected) === JSON.stringify(actual)) return null;
+	if (Array.isArray(expected) && Array.isArray(actual)) {
+		for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+			const diff = firstDifference(expected[i], actual[i], `${path}[${i}]`);
+			if (diff) return diff;
+		}
+	} else if (
+		expected &&
+		actual &&
+		typeof expected === "object" &&
+		typeof actual === "object"
+	) {
+		const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+		for (const key of keys) {
+			const diff = firstDifference(
+				(expected as Record<string, unknown>)[key],
+				(actual as Record<string, unknown>)[key],
+				path ? `${path}.${key}` : key,
+			);
+			if (diff) return diff;
+		}
+	}
+	return path || "(request)";
+}
+
+/**
+ * Request/response pairs of LLM calls in a JSON file. Recording starts a
+ * fresh file and saves it after every call; replaying serves each recorded
+ * response once, to the first identical request. Secrets (see
+ * collectSecrets) are redacted before saving, so requests are matched in
+ * their redacted form.
+ */
+export class Cassette {
+	readonly path: string;
+	readonly mode: CassetteMode;
+	private interactions: CassetteInteraction[] = [];
+	private used = new Set<number>();
+	private calls = 0;
+	private secrets: string[];
+
+	constructor(path: string, mode: CassetteMode, secrets: string[] = []) {
+		this.path = resolve(path);
+		this.mode = mode;
+		this.secrets = secrets;
+
+		if (mode === "replay") {
+			if (!existsSync(this.path)) {
+				throw new Error(`Cassette not found: ${this.path}`);
+			}
+			const file = JSON.parse(readFileSync(this.path, "utf-8")) as CassetteFile;
+			this.interactions = file.interactions;
+		}
+	}
+
+	record(
+		provider: string,
+		model: string,
+		params: CallOptions,
+		result: GenerateResult,
+	): void {
+		const { content, finishReason, usage, providerMetadata, warnings } = result;
+		this.interactions.push({
+			provider,
+			model,
+			request: normalizeRequest(params, this.secrets),
+			response: redactSecrets(
+				JSON.parse(
+					JSON.stringify({
+						content,
+						finishReason,
+						usage,
+						providerMetadata,
+						warnings,
+					}),
+				),
+				this.secrets,
+			),
+		});
+
+		mkdirSync(dirname(this.path), { recursive: true });
+		const file: CassetteFile = { version: 1, interactions: this.interactions };
+		writeFileSync(this.path, JSON.stringify(file, null, 2));
+	}
+
+	/**
+	 * The recorded response to this request. Throws a CassetteMismatchError
+	 * naming the first difference when there is none.
+	 */
+	replay(provider: string, model: string, params: CallOptions): GenerateResult {
+		const call = ++this.calls;
+		const request = normalizeRequest(params, this.secrets);
+		const serialized = JSON.stringify(request);
+
+		const candidates = this.interactions
+			.map((interaction, index) => ({ interaction, index }))
+			.filter(
+				({ interaction, index }) =>
+					!this.used.has(index) &&
+					interaction.provider === provider &&
+					interaction.model === model,
+			);
+		const match = candidates.find(
+			({ interaction }) => JSON.stringify(interaction.request) === serialized,
+		);
+
+		if (!match) {
+			const next = candidates[0];
+			const error = new Error(
+				next
+					? `Cassette ${this.path} diverged on call #${call} (${provider}/${model}): request differs at ${firstDifference(next.interaction.request, request)}`
+					: `Cassette ${this.path} has no recorded response for call #${call} (${provider}/${model})`,
+			);
+			error.name = "CassetteMismatchError";
+			throw error;
+		}
+
+		this.used.add(match.index);
+		return {
+			...match.interaction.response,
+			warnings: match.interaction.response.warnings ?? [],
+		};
+	}
+
+	/**
+	 * Recorded calls that have not been replayed yet.
+	 */
+	remaining(): number {
+		return this.interactions.length - this.used.size;
+	}
+}
+
+/**
+ * Wraps a model so every generate call is saved to the cassette, under the
+ * configured provider name (the one replayingModel looks up).
+ */
+export function recordingModel(
+	provider: string,
+	model: ProviderModel,
+	cassette: Cassette,
+): ProviderModel {
+	return {
+		specificationVersion: "v3",
+		provider: model.provider,
+		modelId: model.modelId,
+		supportedUrls: model.supportedUrls,
+		doGenerate: async (options) => {
+			const result = await model.doGenerate(options);
+			cassette.record(provider, model.modelId, options, result);
+			return result;
+		},
+		doStream: (options) => model.doStream(options),
+	};
+}
+
+/**
+ * An offline model answering from the cassette. Streaming is not recorded,
+ * so it is not supported.
+ */
+export function replayingModel(
+	provider: string,
+	modelId: string,
+	cassette: Cassette,
+): ProviderModel {
+	return {
+		specificationVersion: "v3",
+		provider,
+		modelId,
+		supportedUrls: {},
+		doGenerate: async (options) => cassette.replay(provider, modelId, options),
+		doStream: async () => {
+			throw new Error(
+				`Cassette ${cassette.path} cannot replay streaming calls`,
+			);
+		},
+	};
+}
+
+/**
+ * The model for an agent under the `cassette` config: replays never call
+ * `create`, so they work offline and without API keys.
+ */
+export function withCassette(
+	cassette: CitadelConfig["cassette"],
+	provider: string,
+	modelId: string,
+	create: () => ProviderModel,
+	secrets: string[] = [],
+): ProviderModel {
+	if (cassette?.mode === "replay") {
+		return replayingModel(
+			provider,
+			modelId,
+			getCassette(cassette.path, "replay", secrets),
+		);
+	}
+	if (cassette?.mode === "record") {
+		return recordingModel(
+			provider,
+			create(),
+			getCassette(cassette.path, "record", secrets),
+		);
+	}
+	return create();
+}
+
+/**
+ * One cassette per file and mode, shared by every agent of the process.
+ */
+export function getCassette(
+	path: string,
+	mode: CassetteMode,
+	secrets: string[] = [],
+): Cassette {
+	return getGlobalSingleton(
+		`cassette:${mode}:${resolve(path)}`,
+		() => new Cassette(path, mode, secrets),
+	);
+}
@@ -0,0 +1,271 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { Bead, BeadsClient } from "./beads";
+import type { TokenUsage } from "./queue";
+import { getGlobalSingleton, setGlobalSingleton } from "./registry";
+
+/**
+ * USD per million tokens.
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+// Keyed by "provider/model" or bare model name. Local models are free.
+export const DEFAULT_PRICING: Record<string, ModelPrice> = {
+	"gpt-4o": { input: 2.5, output: 10 },
+	"gpt-4o-mini": { input: 0.15, output: 0.6 },
+	"gpt-4.1": { input: 2, output: 8 },
+	"gpt-4.1-mini": { input: 0.4, output: 1.6 },
+	"gpt-4.1-nano": { input: 0.1, output: 0.4 },
+	o3: { input: 2, output: 8 },
+	"o4-mini": { input: 1.1, output: 4.4 },
+	"claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+	"claude-3-5-sonnet-latest": { input: 3, output: 15 },
+	"claude-3-7-sonnet-latest": { input: 3, output: 15 },
+	"claude-sonnet-4-0": { input: 3, output: 15 },
+	"claude-opus-4-0": { input: 15, output: 75 },
+};
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+/**
+ * Price of a model: configured entries win over the defaults, exact
+ * "provider/model" keys over bare model names. Unknown models cost nothing.
+ */
+export function getModelPrice(
+	provider: string,
+	model: string,
+	overrides: Record<string, ModelPrice> = {},
+): ModelPrice {
+	const table = { ...DEFAULT_PRICING, ...overrides };
+	return table[`${provider}/${model}`] ?? table[model] ?? FREE;
+}
+
+export function calculateCost(
+	price: ModelPrice,
+	usage: Pick<TokenUsage, "inputTokens" | "outputTokens">,
+): number {
+	return (
+		(usage.inputTokens * price.input + usage.outputTokens * price.output) /
+		1_000_000
+	);
+}
+
+export interface CostEntry {
+	bead_id: string;
+	molecule_id: string | null;
+	role: string;
+	provider: string;
+	model: string;
+	input_tokens: number;
+	output_tokens: number;
+	cost: number;
+}
+
+export interface CostSummary {
+	id: string; // Bead or molecule id
+	runs: number; // LLM calls
+	input_tokens: number;
+	output_tokens: number;
+	cost: number;
+}
+
+export interface Budget {
+	bead?: number; // USD
+	molecule?: number; // USD
+}
+
+// Label of beads whose run was stopped by a budget
+export const BUDGET_EXCEEDED_LABEL = "budget-exceeded";
+
+/**
+ * True for the error a run throws once its bead or molecule budget is spent.
+ */
+export function isBudgetExceededError(error: unknown): boolean {
+	return error instanceof Error && error.name === "BudgetExceededError";
+}
+
+/**
+ * The molecule whose budget a bead spends: its top-level epic. Steps of a
+ * sub-formula sit under a nested epic, so epic parents are followed up.
+ */
+export async function getMoleculeId(
+	bead: Bead,
+	beads: Pick<BeadsClient, "get">,
+): Promise<string> {
+	let molecule = bead.parent ? await beads.get(bead.parent) : bead;
+	const seen = new Set([bead.id, molecule.id]);
+	while (molecule.parent && !seen.has(molecule.parent)) {
+		const parent = await beads.get(molecule.parent);
+		if (parent.type !== "epic") break;
+		seen.add(parent.id);
+		molecule = parent;
+	}
+	return molecule.id;
+}
+
+/**
+ * Spend per LLM call, kept in `.citadel/costs.sqlite` so budgets hold
+ * across retries and restarts.
+ */
+export class CostLedger {
+	private db: Database;
+
+	constructor(dbPath?: string) {
+		const finalPath =
+			dbPath || resolve(process.cwd(), ".citadel", "costs.sqlite");
+		if (finalPath !== ":memory:") {
+			mkdirSync(dirname(finalPath), { recursive: true });
+		}
+
+		this.db = new Database(finalPath);
+		this.db.run(`
+      CREATE TABLE IF NOT EXISTS costs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        bead_id TEXT NOT NULL,
+        molecule_id TEXT,
+        role TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cost REAL NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+		this.db.run(`CREATE INDEX IF NOT EXISTS idx_costs_bead ON costs(bead_id)`);
+		this.db.run(
+			`CREATE INDEX IF NOT EXISTS idx_costs_molecule ON costs(molecule_id)`,
+		);
+		// Budgets of a bead or molecule only count costs recorded after its last reset
+		this.db.run(`
+      CREATE TABLE IF NOT EXISTS budget_resets (
+        id TEXT PRIMARY KEY,
+        baseline INTEGER NOT NULL,
+        reset_at INTEGER NOT NULL
+      )
+    `);
+	}
+
+	record(entry: CostEntry): void {
+		this.db.run(
+			`
+            INSERT INTO costs (bead_id, molecule_id, role, provider, model, input_tokens, output_tokens, cost, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+			[
+				entry.bead_id,
+				entry.molecule_id,
+				entry.role,
+				entry.provider,
+				entry.model,
+				entry.input_tokens,
+				entry.output_tokens,
+				entry.cost,
+				Date.now(),
+			],
+		);
+	}
+
+	getBeadCost(beadId: string): number {
+		return this.total("bead_id", beadId);
+	}
+
+	getMoleculeCost(moleculeId: string): number {
+		return this.total("molecule_id", moleculeId);
+	}
+
+	/**
+	 * Throws a BudgetExceededError if the bead or its molecule spent more than
+	 * allowed since their last budget reset.
+	 */
+	checkBudget(beadId: string, moleculeId: string | null, budget: Budget) {
+		const spent = this.budgetSpend("bead_id", beadId);
+		if (budget.bead !== undefined && spent > budget.bead) {
+			throw budgetError(`Bead ${beadId}`, spent, budget.bead);
+		}
+		if (moleculeId && budget.molecule !== undefined) {
+			const total = this.budgetSpend("molecule_id", moleculeId);
+			if (total > budget.molecule) {
+				throw budgetError(`Molecule ${moleculeId}`, total, budget.molecule);
+			}
+		}
+	}
+
+	/**
+	 * Gives a bead or molecule a fresh budget (e.g. on retry). Earlier spend
+	 * stays in the reports.
+	 */
+	resetBudget(id: string): void {
+		this.db.run(
+			`
+            INSERT OR REPLACE INTO budget_resets (id, baseline, reset_at)
+            VALUES (?, (SELECT COALESCE(MAX(id), 0) FROM costs), ?)
+        `,
+			[id, Date.now()],
+		);
+	}
+
+	/**
+	 * Spend per molecule, or per bead of one molecule. Most expensive first.
+	 */
+	summarize(moleculeId?: string): CostSummary[] {
+		// Runs outside a molecule (e.g. routing) are grouped under their bead
+		const column = moleculeId ? "bead_id" : "COALESCE(molecule_id, bead_id)";
+		return this.db
+			.query(`
+            SELECT ${column} AS id, COUNT(*) AS runs, SUM(input_tokens) AS input_tokens,
+                   SUM(output_tokens) AS output_tokens, SUM(cost) AS cost
+            FROM costs
+            ${moleculeId ? "WHERE molecule_id = ?" : ""}
+            GROUP BY ${column}
+            ORDER BY cost DESC, id ASC
+        `)
+			.all(...(moleculeId ? [moleculeId] : [])) as CostSummary[];
+	}
+
+	close(): void {
+		this.db.close();
+	}
+
+	private total(column: "bead_id" | "molecule_id", id: string): number {
+		const row = this.db
+			.query(
+				`SELECT COALESCE(SUM(cost), 0) AS cost FROM costs WHERE ${column} = ?`,
+			)
+			.get(id) as { cost: number };
+		return row.cost;
+	}
+
+	private budgetSpend(column: "bead_id" | "molecule_id", id: string): number {
+		const row = this.db
+			.query(
+				`SELECT COALESCE(SUM(cost), 0) AS cost FROM costs
+                 WHERE ${column} = ?
+                   AND id > COALESCE((SELECT baseline FROM budget_resets WHERE id = ?), 0)`,
+			)
+			.get(id, id) as { cost: number };
+		return row.cost;
+	}
+}
+
+function budgetError(what: string, spent: number, limit: number): Error {
+	const error = new Error(
+		`${what} spent $${spent.toFixed(4)}, over its budget of $${limit.toFixed(2)}`,
+	);
+	error.name = "BudgetExceededError";
+	return error;
+}
+
+const COSTS_KEY = "cost_ledger";
+
+export function getCostLedger(): CostLedger {
+	return getGlobalSingleton(COSTS_KEY, () => new CostLedger());
+}
+
+export function setCostLedgerInstance(ledger: CostLedger) {
+	setGlobalSingleton(COSTS_KEY, ledger);
+}
@@ -0,0 +1,445 @@
+/**
+ * Small, sandboxed expression language for step `if` conditions.
+ *
+ *   {{env}} == 'prod' && !empty(services)
+ *   replicas >= 3 || region in ['eu-west-1', 'eu-central-1']
+ *   {{branch}} =~ '^release/'
+ *
+ * Values are looked up by path ({{a.b}} or a.b) in a plain scope object.
+ * Nothing is ever passed to eval or Function.
+ */
+
+export type Expression =
+	| { kind: "literal"; value: unknown }
+	| { kind: "ref"; path: string[] }
+	| { kind: "list"; items: Expression[] }
+	| { kind: "not"; operand: Expression }
+	| { kind: "logical"; op: "&&" | "||"; left: Expression; right: Expression }
+	| {
+			kind: "compare";
+			op: CompareOp;
+			left: Expression;
+			right: Expression;
+	  }
+	| { kind: "call"; name: string; args: Expression[] };
+
+type CompareOp =
+	| "=="
+	| "!="
+	| "<"
+	| "<="
+	| ">"
+	| ">="
+	| "=~"
+	| "!~"
+	| "in"
+	| "not in";
+
+const FUNCTIONS: Record<string, (args: unknown[]) => unknown> = {
+	empty: ([value]) => isEmpty(value),
+	len: ([value]) => {
+		if (typeof value === "string" || Array.isArray(value)) return value.length;
+		if (value && typeof value === "object") return Object.keys(value).length;
+		return 0;
+	},
+};
+
+// --- Tokenizer ---
+
+type Token =
+	| { type: "op"; value: string; pos: number }
+	| { type: "string"; value: string; pos: number }
+	| { type: "number"; value: number; pos: number }
+	| { type: "ident"; value: string; pos: number }
+	| { type: "ref"; value: string; pos: number }
+	| { type: "end"; pos: number };
+
+const OPERATORS = [
+	"&&",
+	"||",
+	"==",
+	"!=",
+	"<=",
+	">=",
+	"=~",
+	"!~",
+	"<",
+	">",
+	"!",
+	"(",
+	")",
+	"[",
+	"]",
+	",",
+];
+
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let pos = 0;
+
+	const error = (message: string): never => {
+		throw new Error(`${message} at position ${pos} in: ${source}`);
+	};
+
+	while (pos < source.length) {
+		const char = source[pos] as string;
+		const rest = source.slice(pos);
+
+		if (/\s/.test(char)) {
+			pos++;
+			continue;
+		}
+
+		if (rest.startsWith("{{")) {
+			const end = source.indexOf("}}", pos);
+			if (end === -1) error("Unterminated '{{'");
+			const path = source.slice(pos + 2, end).trim();
+			if (!path) error("Empty reference");
+			tokens.push({ type: "ref", value: path, pos });
+			pos = end + 2;
+			continue;
+		}
+
+		if (char === "'" || char === '"') {
+			let value = "";
+			let i = pos + 1;
+			while (i < source.length && source[i] !== char) {
+				if (source[i] === "\\" && i + 1 < source.length) i++;
+				value += source[i];
+				i++;
+			}
+			if (i >= source.length) error("Unterminated string");
+			tokens.push({ type: "string", value, pos });
+			pos = i + 1;
+			continue;
+		}
+
+		const number = rest.match(/^-?\d+(\.\d+)?/);
+		if (number) {
+			tokens.push({ type: "number", value: Number(number[0]), pos });
+			pos += number[0].length;
+			continue;
+		}
+
+		const ident = rest.match(/^[A-Za-z_][\w-]*(\.[\w-]+)*/);
+		if (ident) {
+			tokens.push({ type: "ident", value: ident[0], pos });
+			pos += ident[0].length;
+			continue;
+		}
+
+		const op = OPERATORS.find((o) => rest.startsWith(o));
+		if (op) {
+			tokens.push({ type: "op", value: op, pos });
+			pos += op.length;
+			continue;
+		}
+
+		error(`Unexpected character '${char}'`);
+	}
+
+	tokens.push({ type: "end", pos });
+	return tokens;
+}
+
+// --- Parser ---
+
+/**
+ * Parses an expression. Throws with the offending position on syntax errors.
+ */
+export function parseExpression(source: string): Expression {
+	const tokens = tokenize(source);
+	let index = 0;
+
+	const peek = () => tokens[index] as Token;
+	const next = () => tokens[index++] as Token;
+	const error = (message: string, token = peek()): never => {
+		throw new Error(`${message} at position ${token.pos} in: ${source}`);
+	};
+	const isOp = (value: string, token = peek()) =>
+		token.type === "op" && token.value === value;
+	const isWord = (value: string, token = peek()) =>
+		token.type === "ident" && token.value === value;
+	const expectOp = (value: string) => {
+		if (!isOp(value)) error(`Expected '${value}'`);
+		next();
+	};
+
+	const parseOr = (): Expression => {
+		let left = parseAnd();
+		while (isOp("||")) {
+			next();
+			left = { kind: "logical", op: "||", left, right: parseAnd() };
+		}
+		return left;
+	};
+
+	const parseAnd = (): Expression => {
+		let left = parseNot();
+		while (isOp("&&")) {
+			next();
+			left = { kind: "logical", op: "&&", left, right: parseNot() };
+		}
+		return left;
+	};
+
+	const parseNot = (): Expression => {
+		if (isOp("!")) {
+			next();
+			return { kind: "not", operand: parseNot() };
+		}
+		return parseComparison();
+	};
+
+	const parseComparison = (): Expression => {
+		const left = parseValue();
+		const token = peek();
+
+		let op: CompareOp | undefined;
+		if (
+			token.type === "op" &&
+			["==", "!=", "<", "<=", ">", ">=", "=~", "!~"].includes(token.value)
+		) {
+			op = token.value as CompareOp;
+			next();
+		} else if (isWord("in")) {
+			op = "in";
+			next();
+		} else if (isWord("not") && isWord("in", tokens[index + 1])) {
+			op = "not in";
+			next();
+			next();
+		}
+		if (!op) return left;
+
+		const right = parseValue();
+		// Catch bad regex literals at parse time
+		if ((op === "=~" || op === "!~") && right.kind === "literal") {
+			try {
+				new RegExp(String(right.value));
+			} catch {
+				error(`Invalid regular expression '${right.value}'`, token);
+			}
+		}
+		return { kind: "compare", op, left, right };
+	};
+
+	const parseValue = (): Expression => {
+		const token = next();
+		switch (token.type) {
+			case "string":
+			case "number":
+				return { kind: "literal", value: token.value };
+			case "ref":
+				return { kind: "ref", path: token.value.split(".") };
+			case "ident": {
+				if (token.value === "true") return { kind: "literal", value: true };
+				if (token.value === "false") return { kind: "literal", value: false };
+				if (token.value === "null") return { kind: "literal", value: null };
+				if (isOp("(")) {
+					if (!FUNCTIONS[token.value]) {
+						error(`Unknown function '${token.value}'`, token);
+					}
+					next();
+					const args: Expression[] = [];
+					while (!isOp(")")) {
+						args.push(parseOr());
+						if (!isOp(")")) expectOp(",");
+					}
+					next();
+					return { kind: "call", name: token.value, args };
+				}
+				return { kind: "ref", path: token.value.split(".") };
+			}
+			case "op": {
+				if (token.value === "(") {
+					const inner = parseOr();
+					expectOp(")");
+					return inner;
+				}
+				if (token.value === "[") {
+					const items: Expression[] = [];
+					while (!isOp("]")) {
+						items.push(parseOr());
+						if (!isOp("]")) expectOp(",");
+					}
+					next();
+					return { kind: "list", items };
+				}
+				return error(`Unexpected '${token.value}'`, token);
+			}
+			default:
+				return error("Unexpected end of expression", token);
+		}
+	};
+
+	if (peek().type === "end") error("Empty expression");
+	const expression = parseOr();
+	if (peek().type !== "end") error("Unexpected trailing input");
+	return expression;
+}
+
+// --- Evaluator ---
+
+function isEmpty(value: unknown): boolean {
+	if (value === undefined || value === null || value === "") return true;
+	if (Array.isArray(value)) return value.length === 0;
+	if (typeof value === "object") return Object.keys(value).length === 0;
+	return false;
+}
+
+/**
+ * Truthiness with one concession to untyped CLI input: the string "false" is falsy.
+ */
+export function isTruthy(value: unknown): boolean {
+	if (value === "false") return false;
+	if (Array.isArray(value)) return value.length > 0;
+	return !!value;
+}
+
+function lookup(scope: Record<string, unknown>, path: string[]): unknown {
+	let current: unknown = scope;
+	for (const key of path) {
+		if (current === null || typeof current !== "object") return undefined;
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
+
+function looseEquals(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a === "object" || typeof b === "object") {
+		return JSON.stringify(a) === JSON.stringify(b);
+	}
+	// Variables used to be interpolated as text: 3 == '3', true == 'true'
+	return a !== undefined && b !== undefined && String(a) === String(b);
+}
+
+function compareOrdered(op: CompareOp, a: unknown, b: unknown): boolean {
+	const na = typeof a === "string" && a.trim() !== "" ? Number(a) : a;
+	const nb = typeof b === "string" && b.trim() !== "" ? Number(b) : b;
+
+	let left: number | string;
+	let right: number | string;
+	if (
+		typeof na === "number" &&
+		typeof nb === "number" &&
+		!Number.isNaN(na + nb)
+	) {
+		left = na;
+		right = nb;
+	} else if (typeof a === "string" && typeof b === "string") {
+		left = a;
+		right = b;
+	} else {
+		throw new Error(
+			`Cannot compare ${JSON.stringify(a)} ${op} ${JSON.stringify(b)}`,
+		);
+	}
+
+	switch (op) {
+		case "<":
+			return left < right;
+		case "<=":
+			return left <= right;
+		case ">":
+			return left > right;
+		default:
+			return left >= right;
+	}
+}
+
+function contains(haystack: unknown, needle: unknown): boolean {
+	if (Array.isArray(haystack)) {
+		return haystack.some((item) => looseEquals(item, needle));
+	}
+	if (typeof haystack === "string") {
+		return haystack.includes(String(needle));
+	}
+	if (haystack && typeof haystack === "object") {
+		return Object.hasOwn(haystack, String(needle));
+	}
+	return false;
+}
+
+export function evaluateExpression(
+	expression: Expression,
+	scope: Record<string, unknown>,
+): unknown {
+	const evaluate = (node: Expression): unknown => {
+		switch (node.kind) {
+			case "literal":
+				return node.value;
+			case "ref":
+				return lookup(scope, node.path);
+			case "list":
+				return node.items.map(evaluate);
+			case "not":
+				return !isTruthy(evaluate(node.operand));
+			case "logical": {
+				const left = isTruthy(evaluate(node.left));
+				if (node.op === "&&") return left && isTruthy(evaluate(node.right));
+				return left || isTruthy(evaluate(node.right));
+			}
+			case "call":
+				return (FUNCTIONS[node.name] as (args: unknown[]) => unknown)(
+					node.args.map(evaluate),
+				);
+			case "compare": {
+				const left = evaluate(node.left);
+				const right = evaluate(node.right);
+				switch (node.op) {
+					case "==":
+						return looseEquals(left, right);
+					case "!=":
+						return !looseEquals(left, right);
+					case "=~":
+						return new RegExp(String(right)).test(String(left ?? ""));
+					case "!~":
+						return !new RegExp(String(right)).test(String(left ?? ""));
+					case "in":
+						return contains(right, left);
+					case "not in":
+						return !contains(right, left);
+					default:
+						return compareOrdered(node.op, left, right);
+				}
+			}
+		}
+	};
+	return evaluate(expression);
+}
+
+/**
+ * Every reference path in an expression, e.g. [["steps", "test", "output"]].
+ */
+export function getReferences(expression: Expression): string[][] {
+	switch (expression.kind) {
+		case "ref":
+			return [expression.path];
+		case "list":
+			return expression.items.flatMap(getReferences);
+		case "call":
+			return expression.args.flatMap(getReferences);
+		case "not":
+			return getReferences(expression.operand);
+		case "logical":
+		case "compare":
+			return [
+				...getReferences(expression.left),
+				...getReferences(expression.right),
+			];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Parses and evaluates a condition to a boolean.
+ */
+export function evaluateCondition(
+	source: string,
+	scope: Record<string, unknown>,
+): boolean {
+	return isTruthy(evaluateExpression(parseExpression(source), scope));
+}
@@ -3,14 +3,47 @@ import { readdir, readFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import toml from "@iarna/toml";
 import { z } from "zod";
+import type { Bead } from "./beads";
+import { getReferences, parseExpression } from "./expression";
 import { logger } from "./logger";
+import {
+	parseStepReference,
+	STEP_REFERENCE_PATTERN,
+	type StepReference,
+} from "./reference";
+import { checkVariableDefinition } from "./variables";
 
 // --- Schemas ---
 
-export const FormulaVariableSchema = z.object({
-	description: z.string(),
-	required: z.boolean().default(false),
-	default: z.string().optional(),
+export const VariableTypeSchema = z.enum([
+	"string",
+	"number",
+	"boolean",
+	"enum",
+	"list",
+	"json",
+]);
+
+export const FormulaVariableSchema = z
+	.object({
+		description: z.string(),
+		type: VariableTypeSchema.default("string"),
+		required: z.boolean().default(false),
+		default: z.unknown().optional(), // Native TOML value or a string to coerce
+		choices: z.array(z.string()).optional(), // Allowed values for 'enum'
+		pattern: z.string().optional(), // Regex for strings and list items
+		min: z.number().optional(), // Number value, or string/list length
+		max: z.number().optional(),
+	})
+	.refine((v) => v.type !== "enum" || (v.choices?.length ?? 0) > 0, {
+		message: "enum variables require choices",
+		path: ["choices"],
+	});
+
+export const BackoffSchema = z.object({
+	strategy: z.enum(["fixed", "exponential"]).default("exponential"),
+	base: z.number().positive().default(1), // Seconds (doubled per attempt when exponential)
+	max: z.number().positive().default(300), // Seconds
 });
 
 export const FormulaStepSchema = z.object({
@@ -18,15 +51,23 @@ export const FormulaStepSchema = z.object({
 	title: z.string(),
 	description: z.string(),
 	needs: z.array(z.string()).optional(), // Dependencies (other step IDs)
+	type: z.enum(["task", "approval"]).optional(), // 'approval': human gate, never routed to an agent
 	// Smart Formula Extensions
-	if: z.string().optional(), // Condition regex/eval string
+	if: z.string().optional(), // Condition expression (see expression.ts)
 	for: z
 		.object({
-			items: z.string(), // Variable containing the list
+			items: z.string(), // List variable, or {{steps.ID.output...}} for a runtime fan-out
 			as: z.string(), // Variable name for iteration
 		})
 		.optional(),
 	on_failure: z.string().optional(), // Step ID to trigger if this step fails
+	// Execution policy (defaults: worker.maxRetries and worker.timeout)
+	retries: z.number().int().min(0).optional(), // Retries after a crashed or timed-out run
+	timeout_seconds: z.number().positive().optional(), // Abort the agent run after this long
+	backoff: BackoffSchema.optional(), // Delay between retries
+	// Composition
+	uses: z.string().optional(), // Formula to instantiate as a nested molecule
+	with: z.record(z.string(), z.unknown()).optional(), // Variables for `uses` ({{var}} and {{steps...}} supported)
 	// Dynamic Data Piping
 	output_schema: z.any().optional(), // Zod definition or JSON schema
 	context: z.record(z.string(), z.string()).optional(), // Input context with {{ref}} support
@@ -43,11 +84,258 @@ export const FormulaSchema = z.object({
 
 export type Formula = z.infer<typeof FormulaSchema>;
 export type FormulaStep = z.infer<typeof FormulaStepSchema>;
+export type FormulaVariable = z.infer<typeof FormulaVariableSchema>;
+export type VariableType = z.infer<typeof VariableTypeSchema>;
+
+/**
+ * A structural problem in a formula, located by file and step where known.
+ */
+export interface FormulaIssue {
+	file?: string;
+	formula?: string;
+	step?: string;
+	message: string;
+}
+
+export function formatFormulaIssue(issue: FormulaIssue): string {
+	const location = [
+		issue.file || issue.formula,
+		issue.step ? `step '${issue.step}'` : undefined,
+	]
+		.filter(Boolean)
+		.join(" ");
+	return location ? `${location}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Checks step references and the dependency graph of a parsed formula.
+ * Schema errors are caught earlier by the registry (see getLoadErrors).
+ */
+export function validateFormula(
+	formula: Formula,
+	file?: string,
+): FormulaIssue[] {
+	const issues: FormulaIssue[] = [];
+	const issue = (step: string | undefined, message: string) =>
+		issues.push({ file, formula: formula.formula, step, message });
+
+	for (const [name, config] of Object.entries(formula.vars || {})) {
+		const problem = checkVariableDefinition(name, config);
+		if (problem) issue(undefined, problem);
+	}
+
+	const ids = new Set<string>();
+	for (const step of formula.steps) {
+		if (ids.has(step.id)) issue(step.id, "Duplicate step id");
+		ids.add(step.id);
+
+		if (step.if) {
+			try {
+				parseExpression(step.if);
+			} catch (error) {
+				issue(step.id, `if: ${(error as Error).message}`);
+			}
+		}
+	}
+
+	// Direct dependencies: needs, plus the failing step for recovery steps
+	const deps = new Map<string, Set<string>>();
+	for (const id of ids) deps.set(id, new Set());
+
+	for (const step of formula.steps) {
+		for (const need of step.needs || []) {
+			if (!ids.has(need)) {
+				issue(step.id, `needs unknown step '${need}'`);
+			} else if (need === step.id) {
+				issue(step.id, "Step cannot need itself");
+			} else {
+				deps.get(step.id)?.add(need);
+			}
+		}
+		if (step.on_failure) {
+			if (!ids.has(step.on_failure)) {
+				issue(
+					step.id,
+					`on_failure references unknown step '${step.on_failure}'`,
+				);
+			} else if (step.on_failure === step.id) {
+				issue(step.id, "Step cannot be its own on_failure handler");
+			} else {
+				deps.get(step.on_failure)?.add(step.id);
+			}
+		}
+	}
+
+	for (const cycle of findCycles(deps)) {
+		issue(cycle[0], `Dependency cycle: ${cycle.join(" -> ")}`);
+	}
+
+	// Piped outputs (and deferred conditions) must come from an ancestor step
+	const ancestors = (id: string): Set<string> => {
+		const seen = new Set<string>();
+		const stack = [...(deps.get(id) || [])];
+		while (stack.length > 0) {
+			const next = stack.pop() as string;
+			if (seen.has(next)) continue;
+			seen.add(next);
+			stack.push(...(deps.get(next) || []));
+		}
+		return seen;
+	};
+
+	const checkStepRef = (step: FormulaStep, field: string, target: string) => {
+		if (!ids.has(target)) {
+			issue(step.id, `${field} references unknown step '${target}'`);
+		} else if (!ancestors(step.id).has(target)) {
+			issue(
+				step.id,
+				`${field} references step '${target}', which is not upstream (it must be reachable through needs)`,
+			);
+		}
+	};
+	const checkTextRefs = (step: FormulaStep, field: string, text?: string) => {
+		for (const match of text?.matchAll(STEP_REFERENCE_PATTERN) || []) {
+			let reference: StepReference;
+			try {
+				reference = parseStepReference(match[0]);
+			} catch (error) {
+				issue(step.id, `${field}: ${(error as Error).message}`);
+				continue;
+			}
+			checkStepRef(step, field, reference.stepId);
+		}
+	};
+
+	for (const step of formula.steps) {
+		checkTextRefs(step, "title", step.title);
+		checkTextRefs(step, "description", step.description);
+		for (const [key, value] of Object.entries(step.context || {})) {
+			checkTextRefs(step, `context.${key}`, value);
+		}
+		if (step.if) {
+			let targets: string[] = [];
+			try {
+				targets = stepsReferencedBy(step.if);
+			} catch {
+				// Parse errors are reported above
+			}
+			for (const target of targets) checkStepRef(step, "if", target);
+		}
+		if (step.type === "approval" && (step.uses || step.for)) {
+			issue(step.id, "approval steps cannot use uses or for");
+		}
+		if (step.with && !step.uses) {
+			issue(step.id, "with requires uses");
+		}
+		if (step.uses && step.for && isDynamicFanOut(step.for.items)) {
+			issue(step.id, "uses cannot be combined with a dynamic fan-out");
+		}
+		for (const [key, value] of Object.entries(step.with || {})) {
+			if (typeof value === "string") checkTextRefs(step, `with.${key}`, value);
+		}
+		if (step.for && isDynamicFanOut(step.for.items)) {
+			if (
+				!isSingleReference(step.for.items) ||
+				/^\s*{{\s*steps\.[^.}]+\.artifacts/.test(step.for.items)
+			) {
+				issue(
+					step.id,
+					`for.items must be a single {{steps.ID.output...}} reference, got '${step.for.items}'`,
+				);
+			}
+			checkTextRefs(step, "for.items", step.for.items);
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Step ids a condition reads outputs from ({{steps.ID...}}). Conditions that
+ * reference steps are evaluated at runtime by the Conductor instead of at cook time.
+ */
+export function stepsReferencedBy(condition: string): string[] {
+	const ids = getReferences(parseExpression(condition))
+		.filter((path) => path[0] === "steps" && path[1])
+		.map((path) => path[1] as string);
+	return [...new Set(ids)];
+}
+
+/**
+ * True if `for.items` reads an upstream step output, i.e. the loop can only
+ * be expanded at runtime.
+ */
+export function isDynamicFanOut(items: string): boolean {
+	return items.includes("{{steps.");
+}
+
+function isSingleReference(items: string): boolean {
+	const trimmed = items.trim();
+	return trimmed.match(STEP_REFERENCE_PATTERN)?.[0] === trimmed;
+}
+
+/**
+ * The reference of a dynamic `for.items`, e.g. "{{steps.ID.output.list[*].name}}".
+ * Null unless it is exactly one valid reference.
+ */
+export function parseItemsReference(items: string): StepReference | null {
+	if (!isSingleReference(items)) return null;
+	try {
+		const reference = parseStepReference(items.trim());
+		return reference.source === "output" ? reference : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The formula step a bead was cooked from, found via its `formula:` and `step:` labels.
+ */
+export function getStepDefinition(
+	bead: Pick<Bead, "labels">,
+): FormulaStep | undefined {
+	const stepId = bead.labels?.find((l) => l.startsWith("step:"))?.split(":")[1];
+	const formulaName = bead.labels
+		?.find((l) => l.startsWith("formula:"))
+		?.split(":")[1];
+	if (!stepId || !formulaName) return undefined;
+
+	return getFormulaRegistry()
+		.get(formulaName)
+		?.steps.find((s) => s.id === stepId);
+}
+
+function findCycles(deps: Map<string, Set<string>>): string[][] {
+	const cycles: string[][] = [];
+	const state = new Map<string, "visiting" | "done">();
+	const path: string[] = [];
+
+	const visit = (id: string) => {
+		state.set(id, "visiting");
+		path.push(id);
+		for (const dep of deps.get(id) || []) {
+			if (state.get(dep) === "visiting") {
+				cycles.push([...path.slice(path.indexOf(dep)), dep]);
+			} else if (!state.has(dep)) {
+				visit(dep);
+			}
+		}
+		path.pop();
+		state.set(id, "done");
+	};
+
+	for (const id of deps.keys()) {
+		if (!state.has(id)) visit(id);
+	}
+	return cycles;
+}
 
 // --- Registry ---
 
 export class FormulaRegistry {
 	private formulas: Map<string, Formula> = new Map();
+	private paths: Map<string, string> = new Map();
+	private loadErrors: FormulaIssue[] = [];
 	private basePath: string;
 
 	constructor(basePath?: string) {
@@ -59,6 +347,7 @@ export class FormulaRegistry {
 			return;
 		}
 
+		this.loadErrors = [];
 		const files = await readdir(this.basePath);
 		for (const file of files) {
 			if (file.endsWith(".toml")) {
@@ -72,10 +361,35 @@ export class FormulaRegistry {
 			const content = await readFile(path, "utf-8");
 			// Sanitize TOML output to remove potential symbols or non-standard objects
 			const raw = JSON.parse(JSON.stringify(toml.parse(content)));
-			const formula = FormulaSchema.parse(raw);
+			const result = FormulaSchema.safeParse(raw);
+			if (!result.success) {
+				for (const zodIssue of result.error.issues) {
+					this.loadErrors.push(toLoadError(path, raw, zodIssue));
+				}
+				logger.error(
+					`[FormulaRegistry] Failed to load formula from ${path}:`,
+					result.error,
+				);
+				return;
+			}
+
+			const formula = result.data;
+			const existing = this.paths.get(formula.formula);
+			if (existing && existing !== path) {
+				this.loadErrors.push({
+					file: path,
+					formula: formula.formula,
+					message: `Formula name already defined in ${existing}`,
+				});
+			}
 			this.formulas.set(formula.formula, formula);
+			this.paths.set(formula.formula, path);
 			logger.debug(`[FormulaRegistry] Loaded formula: ${formula.formula}`);
 		} catch (error) {
+			this.loadErrors.push({
+				file: path,
+				message: error instanceof Error ? error.message : String(error),
+			});
 			logger.error(
 				`[FormulaRegistry] Failed to load formula from ${path}:`,
 				error,
@@ -83,6 +397,89 @@ export class FormulaRegistry {
 		}
 	}
 
+	/**
+	 * Files that could not be parsed during the last loadAll().
+	 */
+	getLoadErrors(): FormulaIssue[] {
+		return [...this.loadErrors];
+	}
+
+	getPath(name: string): string | undefined {
+		return this.paths.get(name);
+	}
+
+	/**
+	 * Load errors plus structural issues of every loaded formula (or just `name`).
+	 */
+	validate(name?: string): FormulaIssue[] {
+		if (name) {
+			const formula = this.formulas.get(name);
+			const loadErrors = this.loadErrors.filter((e) => e.formula === name);
+			if (!formula) {
+				return loadErrors.length > 0
+					? loadErrors
+					: [{ formula: name, message: "Formula not found" }];
+			}
+			return [
+				...loadErrors,
+				...validateFormula(formula, this.paths.get(name)),
+				...this.validateComposition(name),
+			];
+		}
+
+		return [
+			...this.loadErrors,
+			...this.list().flatMap((f) => [
+				...validateFormula(f, this.paths.get(f.formula)),
+				...this.validateComposition(f.formula),
+			]),
+		];
+	}
+
+	/**
+	 * Cross-formula checks for `uses`: unknown formulas and recursive composition.
+	 */
+	validateComposition(name: string): FormulaIssue[] {
+		const formula = this.formulas.get(name);
+		if (!formula) return [];
+
+		const file = this.paths.get(name);
+		const issues: FormulaIssue[] = [];
+		for (const step of formula.steps) {
+			if (step.uses && !this.formulas.has(step.uses)) {
+				issues.push({
+					file,
+					formula: name,
+					step: step.id,
+					message: `uses unknown formula '${step.uses}'`,
+				});
+			}
+		}
+
+		// Depth-first search for a path leading back to `name`
+		const visited = new Set<string>();
+		const findPath = (current: string, path: string[]): string[] | null => {
+			for (const step of this.formulas.get(current)?.steps || []) {
+				if (!step.uses) continue;
+				if (step.uses === name) return [...path, name];
+				if (visited.has(step.uses)) continue;
+				visited.add(step.uses);
+				const found = findPath(step.uses, [...path, step.uses]);
+				if (found) return found;
+			}
+			return null;
+		};
+		const cycle = findPath(name, [name]);
+		if (cycle) {
+			issues.push({
+				file,
+				formula: name,
+				message: `Recursive formula composition: ${cycle.join(" -> ")}`,
+			});
+		}
+		return issues;
+	}
+
 	get(name: string): Formula | undefined {
 		return this.formulas.get(name);
 	}
@@ -92,6 +489,36 @@ export class FormulaRegistry {
 	}
 }
 
+function toLoadError(
+	file: string,
+	raw: Record<string, unknown>,
+	zodIssue: z.core.$ZodIssue,
+): FormulaIssue {
+	const [root, index, ...rest] = zodIssue.path;
+	const formula = typeof raw.formula === "string" ? raw.formula : undefined;
+
+	// Point step-level errors at the step id when the raw step has one
+	if (root === "steps" && typeof index === "number") {
+		const steps = Array.isArray(raw.steps) ? raw.steps : [];
+		const step = steps[index] as { id?: unknown } | undefined;
+		const stepName = typeof step?.id === "string" ? step.id : `#${index + 1}`;
+		const field = rest.join(".");
+		return {
+			file,
+			formula,
+			step: stepName,
+			message: field ? `${field}: ${zodIssue.message}` : zodIssue.message,
+		};
+	}
+
+	const field = zodIssue.path.join(".");
+	return {
+		file,
+		formula,
+		message: field ? `${field}: ${zodIssue.message}` : zodIssue.message,
+	};
+}
+
 // Singleton
 let _registry: FormulaRegistry | null = null;
 export function getFormulaRegistry(basePath?: string): FormulaRegistry {
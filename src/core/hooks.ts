@@ -1,6 +1,46 @@
-import { getQueue, type Ticket, type WorkQueue } from "./queue";
+import {
+	type BackoffPolicy,
+	DEFAULT_BACKOFF,
+	getQueue,
+	type Ticket,
+	type WorkQueue,
+} from "./queue";
 
-export type TicketHandler = (ticket: Ticket) => Promise<unknown>;
+export type TicketHandler = (
+	ticket: Ticket,
+	signal: AbortSignal,
+) => Promise<unknown>;
+
+export interface TicketPolicy {
+	maxRetries: number;
+	timeoutMs?: number; // Abort the handler after this long
+	backoff: BackoffPolicy;
+}
+
+export interface HookOptions {
+	// Per-ticket overrides, e.g. from the formula step the bead was cooked from
+	policy?: (
+		ticket: Ticket,
+	) => Promise<Partial<TicketPolicy>> | Partial<TicketPolicy>;
+	// Called once a ticket has failed permanently (retries exhausted)
+	onFailed?: (ticket: Ticket, error: unknown) => Promise<void> | void;
+	// Errors that fail the ticket right away instead of being retried
+	isPermanent?: (error: unknown) => boolean;
+}
+
+/**
+ * True for the abort reason of a handler that exceeded its timeout.
+ */
+export function isTimeoutError(error: unknown): boolean {
+	return error instanceof Error && error.name === "TimeoutError";
+}
+
+/**
+ * True for the abort reason of a Hook that was stopped mid-ticket (shutdown, pool downsizing).
+ */
+export function isShutdownError(error: unknown): boolean {
+	return error instanceof Error && error.name === "ShutdownError";
+}
 
 export class Hook {
 	private agentId: string;
@@ -9,9 +49,12 @@ export class Hook {
 	private pollingInterval: number = 1000;
 	private isRunning: boolean = false;
 	private heartbeatTimer: Timer | null = null;
+	private abortController: AbortController | null = null;
+	private currentCycle: Promise<boolean> | null = null;
 
 	private role: string;
 	private maxRetries: number;
+	private options: HookOptions;
 
 	constructor(
 		agentId: string,
@@ -19,12 +62,14 @@ export class Hook {
 		handler: TicketHandler,
 		queue?: WorkQueue,
 		maxRetries: number = 10,
+		options: HookOptions = {},
 	) {
 		this.agentId = agentId;
 		this.role = role;
 		this.handler = handler;
 		this.queue = queue || getQueue();
 		this.maxRetries = maxRetries;
+		this.options = options;
 	}
 
 	start() {
@@ -35,23 +80,41 @@ export class Hook {
 
 	stop() {
 		this.isRunning = false;
+		// Interrupt the in-flight ticket; it goes back to the queue
+		if (this.abortController && !this.abortController.signal.aborted) {
+			const error = new Error(`Hook ${this.agentId} stopped`);
+			error.name = "ShutdownError";
+			this.abortController.abort(error);
+		}
 		if (this.heartbeatTimer) {
 			clearInterval(this.heartbeatTimer);
 			this.heartbeatTimer = null;
 		}
 	}
 
+	/**
+	 * Stops claiming tickets but lets the in-flight one finish.
+	 * Resolves once the Hook is idle.
+	 */
+	async drain(): Promise<void> {
+		this.isRunning = false;
+		await this.currentCycle?.catch(() => {});
+	}
+
 	private async loop() {
 		while (this.isRunning) {
 			let processed = false;
 			try {
-				processed = await this.cycle();
+				this.currentCycle = this.cycle();
+				processed = await this.currentCycle;
 			} catch (error) {
 				if (this.isRunning) {
 					console.error(`Hook ${this.agentId} error in loop:`, error);
 				} else {
 					// Ignore errors during shutdown (e.g. DB closed)
 				}
+			} finally {
+				this.currentCycle = null;
 			}
 
 			if (this.isRunning) {
@@ -69,30 +132,112 @@ export class Hook {
 		if (!ticket) return false; // No work
 
 		// 2. Start heartbeat
+		this.abortController = new AbortController();
+		const signal = this.abortController.signal;
 		this.startHeartbeat(ticket.id);
 
+		const policy = await this.resolvePolicy(ticket);
+		let timeoutTimer: Timer | null = null;
+
 		try {
-			// 3. Execute handler
-			const output = await this.handler(ticket);
+			// 3. Execute handler, bounded by the ticket timeout
+			if (policy.timeoutMs) {
+				const timeoutMs = policy.timeoutMs;
+				timeoutTimer = setTimeout(() => {
+					const error = new Error(
+						`Ticket ${ticket.id} timed out after ${timeoutMs / 1000}s`,
+					);
+					error.name = "TimeoutError";
+					this.abortController?.abort(error);
+				}, timeoutMs);
+			}
+			const run = this.handler(ticket, signal);
+			run.catch(() => {}); // Settles after the race when the handler ignores the signal
+			const output = await Promise.race([
+				run,
+				new Promise<never>((_, reject) => {
+					if (signal.aborted) reject(signal.reason);
+					signal.addEventListener("abort", () => reject(signal.reason), {
+						once: true,
+					});
+				}),
+			]);
 
-			// 4. Mark complete
-			this.queue.complete(ticket.id, output);
+			// 4. Mark complete (cancelled tickets were already closed by whoever cancelled them)
+			if (!signal.aborted) {
+				this.queue.complete(ticket.id, output);
+			} else {
+				this.releaseIfStopped(ticket, signal);
+			}
 		} catch (error) {
-			console.error(`Hook ${this.agentId} task failed:`, error);
-			// 5. Mark failed with maxRetries limit
-			this.queue.fail(ticket.id, false, this.maxRetries);
+			if (signal.aborted && !isTimeoutError(signal.reason)) {
+				console.warn(`Hook ${this.agentId} task aborted:`, signal.reason);
+				this.releaseIfStopped(ticket, signal);
+			} else {
+				console.error(`Hook ${this.agentId} task failed:`, error);
+				// 5. Retry with backoff, or fail permanently once retries are exhausted
+				const requeued = this.queue.fail(
+					ticket.id,
+					this.options.isPermanent?.(error) ?? false,
+					policy.maxRetries,
+					policy.backoff,
+					error instanceof Error ? error.message : String(error),
+				);
+				if (!requeued && this.queue.getTicket(ticket.id)?.status === "failed") {
+					await this.options.onFailed?.(ticket, error);
+				}
+			}
 		} finally {
+			if (timeoutTimer) clearTimeout(timeoutTimer);
 			this.stopHeartbeat();
+			this.abortController = null;
 		}
 
 		return true;
 	}
 
+	/**
+	 * Shutdown is not the ticket's fault: hand it back without using up a retry.
+	 */
+	private releaseIfStopped(ticket: Ticket, signal: AbortSignal) {
+		if (isShutdownError(signal.reason)) {
+			this.queue.release(ticket.id, (signal.reason as Error).message);
+		}
+	}
+
+	private async resolvePolicy(ticket: Ticket): Promise<TicketPolicy> {
+		const defaults: TicketPolicy = {
+			maxRetries: this.maxRetries,
+			backoff: DEFAULT_BACKOFF,
+		};
+		if (!this.options.policy) return defaults;
+
+		try {
+			const overrides = await this.options.policy(ticket);
+			return {
+				maxRetries: overrides.maxRetries ?? defaults.maxRetries,
+				timeoutMs: overrides.timeoutMs,
+				backoff: overrides.backoff ?? defaults.backoff,
+			};
+		} catch (error) {
+			console.error(
+				`Hook ${this.agentId} failed to resolve policy for ${ticket.id}:`,
+				error,
+			);
+			return defaults;
+		}
+	}
+
 	private startHeartbeat(ticketId: string) {
 		// Heartbeat every 10s (assuming 300s timeout)
 		this.heartbeatTimer = setInterval(() => {
 			try {
 				this.queue.heartbeat(ticketId);
+
+				// Cancellation requested from outside (e.g. `citadel cancel`)
+				if (this.queue.getTicket(ticketId)?.status === "cancelled") {
+					this.abortController?.abort(new Error("Ticket cancelled"));
+				}
 			} catch (e) {
 				console.error(`Hook ${this.agentId} heartbeat failed:`, e);
 			}
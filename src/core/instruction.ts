@@ -188,8 +188,15 @@ export class ContextProvider implements InstructionProvider {
 	priority = 50;
 
 	async getInstructions(ctx: InstructionContext): Promise<string | null> {
-		if (ctx.context?.custom_instructions) {
-			return `## DYNAMIC INSTRUCTIONS\n${ctx.context.custom_instructions}`;
+		// Agent runs pass the bead itself; its stored context carries instructions
+		// added out-of-band (e.g. `citadel retry --instructions`)
+		const bead = ctx.context?.bead as
+			| { context?: Record<string, unknown> }
+			| undefined;
+		const instructions =
+			ctx.context?.custom_instructions ?? bead?.context?.custom_instructions;
+		if (instructions) {
+			return `## DYNAMIC INSTRUCTIONS\n${instructions}`;
 		}
 		return null;
 	}
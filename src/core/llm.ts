@@ -1,7 +1,8 @@
-import { anthropic } from "@ai-sdk/anthropic";
-import { createOpenAI, openai } from "@ai-sdk/openai";
 import type { LanguageModel } from "ai";
 import { getConfig } from "../config";
+import { withCassette } from "./cassette";
+import { createProviderModel } from "./providers";
+import { collectSecrets } from "./transcripts";
 
 type AgentRole = "router" | "worker" | "gatekeeper";
 
@@ -14,29 +15,11 @@ export function getAgentModel(role: AgentRole): LanguageModel {
     }
 
     const { provider, model } = agentConfig;
-
-    switch (provider) {
-        case "openai":
-            return openai(model);
-
-        case "anthropic":
-            return anthropic(model);
-
-        case "ollama": {
-            // Create a custom OpenAI instance for Ollama
-            if (!config.providers.ollama) {
-                throw new Error("Ollama provider configuration is missing");
-            }
-
-            const ollama = createOpenAI({
-                baseURL: config.providers.ollama.baseURL,
-                apiKey: config.providers.ollama.apiKey,
-            });
-
-            return ollama(model);
-        }
-
-        default:
-            throw new Error(`Unsupported provider: ${provider}`);
-    }
+    return withCassette(
+        config.cassette,
+        provider,
+        model,
+        () => createProviderModel(provider, config.providers?.[provider], model, role),
+        config.cassette ? collectSecrets(config) : [],
+    );
 }
@@ -0,0 +1,210 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { LanguageModel } from "ai";
+import { load } from "js-yaml";
+import { minimatch } from "minimatch";
+import { z } from "zod";
+import { getGlobalSingleton } from "./registry";
+
+// Provider-level model (what openai(...) and anthropic(...) return)
+type ProviderModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type CallOptions = Parameters<ProviderModel["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<ProviderModel["doGenerate"]>>;
+
+const MockStepSchema = z
+	.object({
+		text: z.string().optional(),
+		tool: z.string().optional(),
+		input: z.record(z.string(), z.unknown()).default({}),
+	})
+	.refine((step) => step.text !== undefined || step.tool !== undefined, {
+		message: "A step needs a text or a tool",
+	});
+
+const MockRuleSchema = z.object({
+	role: z.enum(["router", "worker", "gatekeeper"]).optional(),
+	// Regex tested against the bead title (the router only sees its request)
+	title: z.string().optional(),
+	// Globs that must each match one of the bead's labels
+	labels: z.array(z.string()).optional(),
+	// Only the nth run of the role on the bead (1-based)
+	attempt: z.number().int().positive().optional(),
+	steps: z.array(MockStepSchema),
+});
+
+export const MockScriptSchema = z.object({
+	rules: z.array(MockRuleSchema),
+});
+
+export type MockRule = z.infer<typeof MockRuleSchema>;
+export type MockStep = z.infer<typeof MockStepSchema>;
+
+interface RunState {
+	attempt: number;
+	step: number;
+}
+
+interface CallTarget {
+	beadId?: string;
+	title: string;
+	labels: string[];
+	isNewRun: boolean;
+}
+
+const NO_USAGE = {
+	inputTokens: {
+		total: 0,
+		noCache: 0,
+		cacheRead: undefined,
+		cacheWrite: undefined,
+	},
+	outputTokens: { total: 0, text: 0, reasoning: undefined },
+};
+
+function textOf(content: unknown): string {
+	if (typeof content === "string") return content;
+	if (!Array.isArray(content)) return "";
+	return content
+		.map((part) => (part?.type === "text" ? String(part.text) : ""))
+		.join("");
+}
+
+/**
+ * Reads the bead out of the agent's first user message
+ * (`Context: {...}\n\nRequest: ...`).
+ */
+function describeCall(options: CallOptions): CallTarget {
+	const first = options.prompt.find((m) => m.role === "user");
+	const text = textOf(first?.content);
+	const match = text.match(/^Context: (.*?)\n\nRequest: ([\s\S]*)$/);
+
+	let context: Record<string, unknown> = {};
+	try {
+		context = match ? JSON.parse(match[1] as string) : {};
+	} catch {
+		// Not our prompt layout - match on the text alone
+	}
+	const bead = (context.bead || {}) as { title?: string; labels?: string[] };
+
+	return {
+		beadId: context.beadId as string | undefined,
+		title: bead.title ?? (match ? (match[2] as string) : text),
+		labels: bead.labels ?? (context.labels as string[] | undefined) ?? [],
+		isNewRun: !options.prompt.some((m) => m.role === "assistant"),
+	};
+}
+
+/**
+ * A script of canned agent behaviour: the first rule matching the role,
+ * bead title, labels and attempt plays its steps, one per LLM call.
+ * Runs are counted per role and bead for the whole process.
+ */
+export class MockScript {
+	readonly path: string;
+	private rules: MockRule[];
+	private runs = new Map<string, RunState>();
+
+	constructor(path: string, rules?: MockRule[]) {
+		this.path = resolve(path);
+		this.rules =
+			rules ??
+			MockScriptSchema.parse(load(readFileSync(this.path, "utf-8"))).rules;
+	}
+
+	respond(role: string, options: CallOptions): GenerateResult {
+		const target = describeCall(options);
+		const key = `${role}:${target.beadId ?? target.title}`;
+
+		let run = this.runs.get(key);
+		if (!run || target.isNewRun) {
+			run = { attempt: (run?.attempt ?? 0) + 1, step: 0 };
+			this.runs.set(key, run);
+		}
+
+		const rule = this.rules.find((r) => this.matches(r, role, target, run));
+		if (!rule) {
+			throw new Error(
+				`Mock script ${this.path} has no rule for ${role} on '${target.title}' (attempt ${run.attempt})`,
+			);
+		}
+
+		// Out of steps: answer without tools so the agent loop ends
+		const step: MockStep = rule.steps[run.step++] ?? {
+			text: "Done",
+			input: {},
+		};
+		return {
+			content: [
+				...(step.text !== undefined
+					? [{ type: "text" as const, text: step.text }]
+					: []),
+				...(step.tool
+					? [
+							{
+								type: "tool-call" as const,
+								toolCallId: `mock-${run.attempt}-${run.step}`,
+								toolName: step.tool,
+								input: JSON.stringify(step.input),
+							},
+						]
+					: []),
+			],
+			finishReason: step.tool
+				? { unified: "tool-calls", raw: undefined }
+				: { unified: "stop", raw: undefined },
+			usage: NO_USAGE,
+			warnings: [],
+		};
+	}
+
+	private matches(
+		rule: MockRule,
+		role: string,
+		target: CallTarget,
+		run: RunState,
+	): boolean {
+		if (rule.role && rule.role !== role) return false;
+		if (rule.title && !new RegExp(rule.title, "i").test(target.title)) {
+			return false;
+		}
+		if (
+			rule.labels &&
+			!rule.labels.every((pattern) =>
+				target.labels.some((label) => minimatch(label, pattern)),
+			)
+		) {
+			return false;
+		}
+		return rule.attempt === undefined || rule.attempt === run.attempt;
+	}
+}
+
+/**
+ * An offline model for one agent role, playing the steps of a mock script.
+ */
+export function mockModel(
+	role: string,
+	modelId: string,
+	script: MockScript,
+): ProviderModel {
+	return {
+		specificationVersion: "v3",
+		provider: "mock",
+		modelId,
+		supportedUrls: {},
+		doGenerate: async (options) => script.respond(role, options),
+		doStream: async () => {
+			throw new Error("The mock provider does not support streaming");
+		},
+	};
+}
+
+/**
+ * One script per file, so run counts are shared by every agent of the process.
+ */
+export function getMockScript(path: string): MockScript {
+	return getGlobalSingleton(
+		`mock_script:${resolve(path)}`,
+		() => new MockScript(path),
+	);
+}
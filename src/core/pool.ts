@@ -4,6 +4,7 @@ import { logger } from "./logger";
 interface PoolItem {
 	start?: () => Promise<void> | void;
 	stop?: () => void;
+	drain?: () => Promise<void>;
 }
 
 export class WorkerPool extends EventEmitter {
@@ -143,6 +144,13 @@ export class WorkerPool extends EventEmitter {
 		this.emit("stopped");
 	}
 
+	/**
+	 * Lets every worker finish its current task without taking new ones.
+	 */
+	async drain(): Promise<void> {
+		await Promise.all(this.workers.map((worker) => worker.drain?.()));
+	}
+
 	get status() {
 		return {
 			total: this.workers.length,
@@ -0,0 +1,144 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createAzure } from "@ai-sdk/azure";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import {
+	type ProviderConfig,
+	type ProviderType,
+	providerTypeOf,
+} from "../config/schema";
+import { getMockScript, mockModel } from "./mock-model";
+
+// Provider-level model (what openai(...) and anthropic(...) return)
+type ProviderModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type Env = Record<string, string | undefined>;
+
+const OLLAMA_BASE_URL = "http://localhost:11434/v1";
+const GOOGLE_BASE_URL =
+	"https://generativelanguage.googleapis.com/v1beta/openai";
+
+// Read when a provider sets neither apiKey nor apiKeyEnv (the openai and anthropic SDKs read their own)
+const DEFAULT_API_KEY_ENV: Partial<Record<ProviderType, string>> = {
+	google: "GOOGLE_GENERATIVE_AI_API_KEY",
+	azure: "AZURE_API_KEY",
+	bedrock: "AWS_BEARER_TOKEN_BEDROCK",
+};
+
+function apiKeyOf(
+	name: string,
+	type: ProviderType,
+	provider: ProviderConfig,
+	env: Env,
+): string | undefined {
+	if (provider.apiKey) return provider.apiKey;
+	const variable = provider.apiKeyEnv ?? DEFAULT_API_KEY_ENV[type];
+	if (!variable) return undefined;
+	const key = env[variable];
+	if (!key) {
+		throw new Error(
+			`Provider "${name}" reads its API key from ${variable}, which is not set`,
+		);
+	}
+	return key;
+}
+
+function baseURLOf(
+	name: string,
+	type: ProviderType,
+	provider: ProviderConfig,
+	env: Env,
+): string {
+	if (provider.baseURL) return provider.baseURL;
+	switch (type) {
+		case "ollama":
+			return OLLAMA_BASE_URL;
+		case "google":
+			return GOOGLE_BASE_URL;
+		case "bedrock": {
+			const region = provider.region ?? env.AWS_REGION;
+			if (!region) {
+				throw new Error(`Bedrock provider "${name}" needs a region or baseURL`);
+			}
+			return `https://bedrock-runtime.${region}.amazonaws.com/openai/v1`;
+		}
+		default:
+			throw new Error(`Provider "${name}" needs a baseURL`);
+	}
+}
+
+/**
+ * The model `modelId` of the provider configured under `name`. Everything
+ * but openai, anthropic and mock speaks the OpenAI chat completions API.
+ */
+export function createProviderModel(
+	name: string,
+	provider: ProviderConfig | undefined,
+	modelId: string,
+	role: string,
+	env: Env = process.env,
+): ProviderModel {
+	const type = providerTypeOf(name, provider);
+	const entry = provider ?? {};
+
+	switch (type) {
+		case "openai":
+			return createOpenAI({
+				name,
+				baseURL: entry.baseURL,
+				apiKey: apiKeyOf(name, type, entry, env),
+				headers: entry.headers,
+			})(modelId);
+
+		case "anthropic":
+			return createAnthropic({
+				name,
+				baseURL: entry.baseURL,
+				apiKey: apiKeyOf(name, type, entry, env),
+				headers: entry.headers,
+			})(modelId);
+
+		case "ollama":
+			return createOpenAI({
+				name,
+				baseURL: baseURLOf(name, type, entry, env),
+				apiKey: apiKeyOf(name, type, entry, env) ?? "ollama",
+				headers: entry.headers,
+			})(modelId);
+
+		case "azure": {
+			// Key auth sends an `api-key` header rather than a bearer token
+			const resourceName = entry.resourceName ?? env.AZURE_RESOURCE_NAME;
+			if (!resourceName && !entry.baseURL) {
+				throw new Error(
+					`Azure provider "${name}" needs a resourceName or baseURL`,
+				);
+			}
+			return createAzure({
+				resourceName,
+				baseURL: entry.baseURL,
+				apiKey: apiKeyOf(name, type, entry, env),
+				headers: entry.headers,
+			}).chat(modelId);
+		}
+
+		case "openai-compatible":
+		case "google":
+		case "bedrock":
+			// Keyless servers (vLLM, LM Studio) still get a bearer token
+			return createOpenAI({
+				name,
+				baseURL: baseURLOf(name, type, entry, env),
+				apiKey: apiKeyOf(name, type, entry, env) ?? "none",
+				headers: entry.headers,
+			}).chat(modelId);
+
+		case "mock":
+			if (!entry.script) {
+				throw new Error(`Mock provider "${name}" needs a script`);
+			}
+			return mockModel(role, modelId, getMockScript(entry.script));
+
+		default:
+			throw new Error(`Unknown provider: ${name}`);
+	}
+}
@@ -12,6 +12,7 @@ export const TicketStatusSchema = z.enum([
 	"processing",
 	"completed",
 	"failed",
+	"cancelled",
 ]);
 export type TicketStatus = z.infer<typeof TicketStatusSchema>;
 
@@ -28,11 +29,78 @@ export const TicketSchema = z.object({
 	heartbeat_at: z.number().nullable(),
 	retry_count: z.number(),
 	next_attempt_at: z.number().nullable(),
+	archived_at: z.number().nullable().optional(),
 	output: z.unknown().optional(),
+	schema_version: z.string().nullable().optional(),
+	// Why the ticket ended up failed (dead letters)
+	failure_reason: z.string().nullable().optional(),
 });
 
 export type Ticket = z.infer<typeof TicketSchema>;
 
+export type AttemptOutcome =
+	| "running"
+	| "completed"
+	| "failed"
+	| "stalled"
+	| "cancelled";
+
+/**
+ * One claim of a ticket. Requeues reset the ticket itself, attempts keep the history.
+ */
+export interface TicketAttempt {
+	id: number;
+	ticket_id: string;
+	bead_id: string;
+	attempt: number;
+	assignee_id: string;
+	started_at: number;
+	ended_at: number | null;
+	outcome: AttemptOutcome;
+	error: string | null;
+	input_tokens: number | null;
+	output_tokens: number | null;
+	total_tokens: number | null;
+	output: unknown;
+}
+
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	totalTokens: number;
+}
+
+export interface StepOutput {
+	output: unknown;
+	// Version of the output_schema the output was validated against, if any
+	schemaVersion: string | null;
+}
+
+export interface BackoffPolicy {
+	strategy: "fixed" | "exponential";
+	baseMs: number;
+	maxMs: number;
+}
+
+// 2s, 4s, 8s, ... capped at 5 minutes
+export const DEFAULT_BACKOFF: BackoffPolicy = {
+	strategy: "exponential",
+	baseMs: 1000,
+	maxMs: 300000,
+};
+
+/**
+ * Delay before the given retry attempt (1-based).
+ */
+export function getBackoffDelay(
+	policy: BackoffPolicy,
+	attempt: number,
+): number {
+	const delay =
+		policy.strategy === "fixed" ? policy.baseMs : policy.baseMs * 2 ** attempt;
+	return Math.min(delay, policy.maxMs);
+}
+
 // --- Queue Implementation ---
 
 export class WorkQueue {
@@ -85,6 +153,48 @@ export class WorkQueue {
 		} catch {
 			/* ignore */
 		}
+
+		try {
+			this.db.run(`ALTER TABLE tickets ADD COLUMN archived_at INTEGER`);
+		} catch {
+			/* ignore */
+		}
+
+		try {
+			this.db.run(`ALTER TABLE tickets ADD COLUMN schema_version TEXT`);
+		} catch {
+			/* ignore */
+		}
+
+		try {
+			this.db.run(`ALTER TABLE tickets ADD COLUMN failure_reason TEXT`);
+		} catch {
+			/* ignore */
+		}
+
+		this.db.run(`
+      CREATE TABLE IF NOT EXISTS ticket_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ticket_id TEXT NOT NULL,
+        bead_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        assignee_id TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER,
+        outcome TEXT NOT NULL,
+        error TEXT,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        total_tokens INTEGER,
+        output TEXT
+      )
+    `);
+		this.db.run(
+			`CREATE INDEX IF NOT EXISTS idx_attempts_ticket ON ticket_attempts(ticket_id)`,
+		);
+		this.db.run(
+			`CREATE INDEX IF NOT EXISTS idx_attempts_bead ON ticket_attempts(bead_id)`,
+		);
 	}
 
 	enqueue(beadId: string, priority?: number, targetRole?: string): void {
@@ -134,6 +244,13 @@ export class WorkQueue {
         `,
 				[assigneeId, now, now, candidate.id],
 			);
+			this.db.run(
+				`
+            INSERT INTO ticket_attempts (ticket_id, bead_id, attempt, assignee_id, started_at, outcome)
+            SELECT ?, ?, COUNT(*) + 1, ?, ?, 'running' FROM ticket_attempts WHERE ticket_id = ?
+        `,
+				[candidate.id, candidate.bead_id, assigneeId, now, candidate.id],
+			);
 
 			// Return fresh record
 			return this.db
@@ -162,9 +279,10 @@ export class WorkQueue {
 	 * Mark ticket as complete with optional output
 	 */
 	/**
-	 * Mark ticket as complete with optional output
+	 * Mark ticket as complete with optional output.
+	 * `schemaVersion` records the output_schema the output was validated against.
 	 */
-	complete(ticketId: string, output?: unknown): void {
+	complete(ticketId: string, output?: unknown, schemaVersion?: string): void {
 		const now = Date.now();
 		let result: { changes: number };
 
@@ -173,10 +291,10 @@ export class WorkQueue {
 			result = this.db.run(
 				`
             UPDATE tickets 
-            SET status = 'completed', completed_at = ?, output = ? 
+            SET status = 'completed', completed_at = ?, output = ?, schema_version = ?
             WHERE id = ? AND status = 'processing'
         `,
-				[now, outputJson, ticketId],
+				[now, outputJson, schemaVersion ?? null, ticketId],
 			) as { changes: number };
 		} else {
 			// Preserve existing output
@@ -190,6 +308,10 @@ export class WorkQueue {
 			) as { changes: number };
 		}
 
+		if (result.changes > 0) {
+			this.endAttempt(ticketId, "completed", { output });
+		}
+
 		if (result.changes === 0) {
 			// Check if it was already completed (idempotency)
 			const current = this.db
@@ -209,38 +331,50 @@ export class WorkQueue {
 	 * Get output of a completed ticket by Bead ID
 	 */
 	getOutput(beadId: string): unknown {
+		return this.getOutputRecord(beadId)?.output ?? null;
+	}
+
+	/**
+	 * Output of a completed ticket by Bead ID, with the schema version it was validated against
+	 */
+	getOutputRecord(beadId: string): StepOutput | null {
 		const result = this.db
 			.query(`
-            SELECT output FROM tickets 
-            WHERE bead_id = ? AND status = 'completed'
+            SELECT output, schema_version FROM tickets 
+            WHERE bead_id = ? AND status = 'completed' AND archived_at IS NULL
             ORDER BY completed_at DESC
             LIMIT 1
         `)
-			.get(beadId) as { output: string | null } | null;
+			.get(beadId) as {
+			output: string | null;
+			schema_version: string | null;
+		} | null;
 
 		if (result?.output) {
-			return JSON.parse(result.output);
+			return {
+				output: JSON.parse(result.output),
+				schemaVersion: result.schema_version,
+			};
 		}
 		return null;
 	}
 
 	/**
-	 * Release a failed ticket back to queue (or fail permanently)
+	 * Release a failed ticket back to queue (or fail permanently).
+	 * Returns true if the ticket was re-queued for another attempt.
+	 * `error` is recorded on the attempt.
 	 */
 	fail(
 		ticketId: string,
 		permanent: boolean = false,
 		maxRetries: number = 10,
-	): void {
+		backoff: BackoffPolicy = DEFAULT_BACKOFF,
+		error?: string,
+	): boolean {
+		this.endAttempt(ticketId, "failed", { error });
 		if (permanent) {
-			this.db.run(
-				`
-            UPDATE tickets 
-            SET status = 'failed' 
-            WHERE id = ? AND status = 'processing'
-        `,
-				[ticketId],
-			);
+			this.deadLetter(ticketId, error || "Failed permanently");
+			return false;
 		} else {
 			// Re-queue with incremented retry count AND next_attempt_at
 			const now = Date.now();
@@ -253,21 +387,16 @@ export class WorkQueue {
 				logger.warn(
 					`[Queue] Ticket ${ticketId} exceeded max retries (${maxRetries}). Failing permanently.`,
 				);
-				this.db.run(
-					`
-                    UPDATE tickets 
-                    SET status = 'failed' 
-                    WHERE id = ? AND status = 'processing'
-                `,
-					[ticketId],
+				this.deadLetter(
+					ticketId,
+					`Exceeded max retries (${maxRetries})${error ? `: ${error}` : ""}`,
 				);
-				return;
+				return false;
 			}
 
-			// Exponential delay
-			const nextAttempt = now + Math.min(1000 * 2 ** nextRetry, 300000);
+			const nextAttempt = now + getBackoffDelay(backoff, nextRetry);
 
-			this.db.run(
+			const result = this.db.run(
 				`
             UPDATE tickets 
             SET status = 'queued', assignee_id = NULL, started_at = NULL, heartbeat_at = NULL, 
@@ -275,8 +404,91 @@ export class WorkQueue {
             WHERE id = ? AND status = 'processing'
         `,
 				[nextRetry, nextAttempt, ticketId],
-			);
+			) as { changes: number };
+			return result.changes > 0;
+		}
+	}
+
+	/**
+	 * Hand an in-flight ticket back to the queue without counting a retry
+	 * (e.g. its Hook was stopped). The attempt is recorded as cancelled.
+	 */
+	release(ticketId: string, reason: string): boolean {
+		this.endAttempt(ticketId, "cancelled", { error: reason });
+		const result = this.db.run(
+			`
+            UPDATE tickets 
+            SET status = 'queued', assignee_id = NULL, started_at = NULL, heartbeat_at = NULL
+            WHERE id = ? AND status = 'processing'
+        `,
+			[ticketId],
+		) as { changes: number };
+		return result.changes > 0;
+	}
+
+	/**
+	 * Completes a queued or in-flight ticket whose bead has already moved on
+	 * (e.g. a worker that crashed after submitting). Its open attempt ends
+	 * with `reason`. Returns false if the ticket was not active.
+	 */
+	forceComplete(ticketId: string, reason: string): boolean {
+		const result = this.db.run(
+			`
+            UPDATE tickets 
+            SET status = 'completed', completed_at = ?
+            WHERE id = ? AND status IN ('queued', 'processing')
+        `,
+			[Date.now(), ticketId],
+		) as { changes: number };
+		if (result.changes > 0) {
+			this.endAttempt(ticketId, "completed", { error: reason });
 		}
+		return result.changes > 0;
+	}
+
+	/**
+	 * Tickets that failed permanently and were not archived by a retry, newest first
+	 */
+	listDeadLetters(): Ticket[] {
+		return this.db
+			.query(`
+            SELECT * FROM tickets 
+            WHERE status = 'failed' AND archived_at IS NULL
+            ORDER BY completed_at DESC, created_at DESC
+        `)
+			.all() as Ticket[];
+	}
+
+	/**
+	 * Put a dead letter back in the queue with a fresh retry budget.
+	 * Returns false if the ticket is not a dead letter.
+	 */
+	requeueDeadLetter(ticketId: string): boolean {
+		const result = this.db.run(
+			`
+            UPDATE tickets 
+            SET status = 'queued', assignee_id = NULL, started_at = NULL, heartbeat_at = NULL,
+                completed_at = NULL, retry_count = 0, next_attempt_at = NULL, failure_reason = NULL
+            WHERE id = ? AND status = 'failed' AND archived_at IS NULL
+        `,
+			[ticketId],
+		) as { changes: number };
+		return result.changes > 0;
+	}
+
+	/**
+	 * Delete dead letters (all, or a single ticket). Attempt history is kept.
+	 */
+	purgeDeadLetters(ticketId?: string): number {
+		const result = ticketId
+			? this.db.run(
+					"DELETE FROM tickets WHERE id = ? AND status = 'failed' AND archived_at IS NULL",
+					[ticketId],
+				)
+			: this.db.run(
+					"DELETE FROM tickets WHERE status = 'failed' AND archived_at IS NULL",
+				);
+		return (result as { changes: number }).changes;
 	}
 
 	/**
@@ -308,8 +520,11 @@ export class WorkQueue {
 					.query(`SELECT retry_count FROM tickets WHERE id = ?`)
 					.get(ticket.id) as { retry_count: number };
 				const nextRetry = (t?.retry_count || 0) + 1;
-				const nextAttempt = now + Math.min(1000 * 2 ** nextRetry, 300000);
+				const nextAttempt = now + getBackoffDelay(DEFAULT_BACKOFF, nextRetry);
 				releaseStmt.run(nextAttempt, ticket.id);
+				this.endAttempt(ticket.id, "stalled", {
+					error: `No heartbeat for ${Math.round(timeoutMs / 1000)}s`,
+				});
 			}
 		});
 
@@ -317,6 +532,105 @@ export class WorkQueue {
 		return stalled.length;
 	}
 
+	/**
+	 * Cancel all active tickets (queued or processing) for a bead.
+	 * Processing tickets are picked up by their Hook on the next heartbeat.
+	 */
+	cancelBead(beadId: string): number {
+		const now = Date.now();
+		this.db.run(
+			`
+            UPDATE ticket_attempts 
+            SET outcome = 'cancelled', ended_at = ?
+            WHERE bead_id = ? AND outcome = 'running'
+        `,
+			[now, beadId],
+		);
+		const result = this.db.run(
+			`
+            UPDATE tickets 
+            SET status = 'cancelled', completed_at = ?
+            WHERE bead_id = ? AND status IN ('queued', 'processing')
+        `,
+			[now, beadId],
+		) as { changes: number };
+		return result.changes;
+	}
+
+	/**
+	 * Token usage of the latest attempt of a ticket (reported once the agent run ends)
+	 */
+	recordUsage(ticketId: string, usage: TokenUsage): void {
+		this.db.run(
+			`
+            UPDATE ticket_attempts 
+            SET input_tokens = ?, output_tokens = ?, total_tokens = ?
+            WHERE id = (SELECT MAX(id) FROM ticket_attempts WHERE ticket_id = ?)
+        `,
+			[usage.inputTokens, usage.outputTokens, usage.totalTokens, ticketId],
+		);
+	}
+
+	/**
+	 * Attempt history of a ticket, or of every ticket of a bead, oldest first
+	 */
+	getAttempts(id: string): TicketAttempt[] {
+		const rows = this.db
+			.query(`
+            SELECT * FROM ticket_attempts 
+            WHERE ticket_id = ? OR bead_id = ?
+            ORDER BY started_at ASC, id ASC
+        `)
+			.all(id, id) as (TicketAttempt & { output: string | null })[];
+		return rows.map((row) => ({
+			...row,
+			output: row.output ? JSON.parse(row.output) : null,
+		}));
+	}
+
+	private deadLetter(ticketId: string, reason: string): void {
+		this.db.run(
+			`
+            UPDATE tickets 
+            SET status = 'failed', completed_at = ?, failure_reason = ?
+            WHERE id = ? AND status = 'processing'
+        `,
+			[Date.now(), reason, ticketId],
+		);
+	}
+
+	private endAttempt(
+		ticketId: string,
+		outcome: AttemptOutcome,
+		details: { error?: string; output?: unknown } = {},
+	): void {
+		this.db.run(
+			`
+            UPDATE ticket_attempts 
+            SET outcome = ?, ended_at = ?, error = ?, output = ?
+            WHERE ticket_id = ? AND outcome = 'running'
+        `,
+			[
+				outcome,
+				Date.now(),
+				details.error ?? null,
+				details.output === undefined || details.output === null
+					? null
+					: JSON.stringify(details.output),
+				ticketId,
+			],
+		);
+	}
+
+	/**
+	 * Get a ticket by ID
+	 */
+	getTicket(ticketId: string): Ticket | null {
+		return this.db
+			.query(`SELECT * FROM tickets WHERE id = ?`)
+			.get(ticketId) as Ticket | null;
+	}
+
 	/**
 	 * Check if a bead has an active ticket (queued or processing)
 	 */
@@ -336,18 +650,46 @@ export class WorkQueue {
 		return this.db
 			.query(`
             SELECT * FROM tickets 
-            WHERE bead_id = ?
+            WHERE bead_id = ? AND archived_at IS NULL
             ORDER BY created_at DESC
             LIMIT 1
         `)
 			.get(beadId) as Ticket | null;
 	}
 
+	/**
+	 * Archive all tickets of a bead so a fresh attempt starts from a clean slate.
+	 * History is kept, but archived tickets no longer count as the latest ticket or output.
+	 */
+	archiveBead(beadId: string): number {
+		const now = Date.now();
+		const transaction = this.db.transaction(() => {
+			this.db.run(
+				`
+            UPDATE tickets 
+            SET status = 'cancelled', completed_at = ?
+            WHERE bead_id = ? AND status = 'queued'
+        `,
+				[now, beadId],
+			);
+			return this.db.run(
+				`
+            UPDATE tickets 
+            SET archived_at = ?
+            WHERE bead_id = ? AND archived_at IS NULL
+        `,
+				[now, beadId],
+			) as { changes: number };
+		});
+		return transaction().changes;
+	}
+
 	/**
 	 * Reset tickets for a specific bead
 	 */
 	resetBead(beadId: string): void {
 		this.db.run("DELETE FROM tickets WHERE bead_id = ?", [beadId]);
+		this.db.run("DELETE FROM ticket_attempts WHERE bead_id = ?", [beadId]);
 	}
 
 	/**
@@ -0,0 +1,212 @@
+/**
+ * Step output references used for data piping:
+ *
+ *   {{steps.research.output}}
+ *   {{steps.research.output.items[0].name}}
+ *   {{steps.crawl.output.pages[*].url | join: ', '}}
+ *   {{steps.review.output.summary | default: 'n/a' | upper}}
+ *   {{steps.report.artifacts.summary}}          (path of an attached file)
+ *   {{steps.report.artifacts.summary.content}}  (its content)
+ *
+ * Selectors walk keys, array indexes (negative counts from the end) and [*]
+ * wildcards. Filters are a fixed set of pure functions; nothing is ever
+ * passed to eval or Function.
+ */
+
+export type PathSegment =
+	| { kind: "key"; key: string }
+	| { kind: "index"; index: number }
+	| { kind: "wildcard" };
+
+export interface Filter {
+	name: string;
+	arg?: string | number;
+}
+
+export interface StepReference {
+	stepId: string;
+	source: "output" | "artifacts";
+	path: PathSegment[];
+	filters: Filter[];
+}
+
+// Every {{steps...}} reference in a string
+export const STEP_REFERENCE_PATTERN = /{{\s*steps\.[^}]*}}/g;
+
+const FILTERS: Record<
+	string,
+	(value: unknown, arg?: string | number) => unknown
+> = {
+	default: (value, arg) =>
+		value === undefined || value === null || value === "" ? arg : value,
+	join: (value, arg) =>
+		Array.isArray(value)
+			? value
+					.map((item) =>
+						typeof item === "string" ? item : JSON.stringify(item ?? null),
+					)
+					.join(String(arg ?? ", "))
+			: value,
+	length: (value) => {
+		if (typeof value === "string" || Array.isArray(value)) return value.length;
+		if (value && typeof value === "object") return Object.keys(value).length;
+		return 0;
+	},
+	json: (value) => JSON.stringify(value ?? null),
+	upper: (value) => (typeof value === "string" ? value.toUpperCase() : value),
+	first: (value) => (Array.isArray(value) ? value[0] : value),
+	last: (value) => (Array.isArray(value) ? value.at(-1) : value),
+	keys: (value) =>
+		value && typeof value === "object" && !Array.isArray(value)
+			? Object.keys(value)
+			: [],
+};
+
+// Filters that cannot do anything useful without an argument
+const REQUIRED_ARGS = new Set(["default"]);
+
+/**
+ * Splits on '|' outside of quoted arguments.
+ */
+function splitPipes(source: string): string[] {
+	const parts: string[] = [];
+	let current = "";
+	let quote: string | null = null;
+	for (const char of source) {
+		if (quote) {
+			if (char === quote) quote = null;
+		} else if (char === "'" || char === '"') {
+			quote = char;
+		} else if (char === "|") {
+			parts.push(current);
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+	parts.push(current);
+	return parts;
+}
+
+function parsePath(selector: string, source: string): PathSegment[] {
+	const path: PathSegment[] = [];
+	let rest = selector;
+	while (rest) {
+		const match =
+			rest.match(/^\.([^.[\]\s]+)/) ||
+			rest.match(/^\[(-?\d+|\*)\]/) ||
+			rest.match(/^\[(['"])(.*?)\1\]/);
+		if (!match) {
+			throw new Error(`Invalid selector '${rest}' in: ${source}`);
+		}
+		if (match[0].startsWith(".")) {
+			path.push({ kind: "key", key: match[1] as string });
+		} else if (match[1] === "*") {
+			path.push({ kind: "wildcard" });
+		} else if (match[2] !== undefined) {
+			path.push({ kind: "key", key: match[2] });
+		} else {
+			path.push({ kind: "index", index: Number(match[1]) });
+		}
+		rest = rest.slice(match[0].length);
+	}
+	return path;
+}
+
+function parseFilter(part: string, source: string): Filter {
+	const match = part.trim().match(/^(\w+)\s*(?::\s*(.*))?$/);
+	if (!match) throw new Error(`Invalid filter '${part.trim()}' in: ${source}`);
+
+	const name = match[1] as string;
+	if (!FILTERS[name]) throw new Error(`Unknown filter '${name}' in: ${source}`);
+
+	const raw = match[2]?.trim();
+	if (raw === undefined || raw === "") {
+		if (REQUIRED_ARGS.has(name)) {
+			throw new Error(`Filter '${name}' needs an argument in: ${source}`);
+		}
+		return { name };
+	}
+	const quoted = raw.match(/^(['"])(.*)\1$/);
+	if (quoted) return { name, arg: quoted[2] };
+	if (/^-?\d+(\.\d+)?$/.test(raw)) return { name, arg: Number(raw) };
+	throw new Error(
+		`Invalid argument '${raw}' for filter '${name}' (quote strings) in: ${source}`,
+	);
+}
+
+/**
+ * Parses a `{{steps.ID.output...}}` reference. Throws on syntax errors.
+ */
+export function parseStepReference(source: string): StepReference {
+	const inner = source.trim().replace(/^{{/, "").replace(/}}$/, "");
+	const [head = "", ...filters] = splitPipes(inner);
+
+	const match = head
+		.trim()
+		.match(/^steps\.([^.[\]\s]+)\.(output|artifacts)(.*)$/);
+	if (!match) {
+		throw new Error(`Expected steps.ID.output in: ${source}`);
+	}
+
+	const reference: StepReference = {
+		stepId: match[1] as string,
+		source: match[2] as StepReference["source"],
+		path: parsePath(match[3] as string, source),
+		filters: filters.map((part) => parseFilter(part, source)),
+	};
+	// artifacts, artifacts.NAME or artifacts.NAME.content
+	const [name, field, ...rest] = reference.path;
+	if (
+		reference.source === "artifacts" &&
+		(name?.kind === "index" ||
+			name?.kind === "wildcard" ||
+			(field && (field.kind !== "key" || field.key !== "content")) ||
+			rest.length > 0)
+	) {
+		throw new Error(
+			`Expected steps.ID.artifacts.NAME or steps.ID.artifacts.NAME.content in: ${source}`,
+		);
+	}
+	return reference;
+}
+
+function select(value: unknown, path: PathSegment[]): unknown {
+	const [segment, ...rest] = path;
+	if (!segment) return value;
+	if (value === null || typeof value !== "object") return undefined;
+
+	if (segment.kind === "wildcard") {
+		const items = Array.isArray(value) ? value : Object.values(value);
+		const selected = items
+			.map((item) => select(item, rest))
+			.filter((item) => item !== undefined);
+		// Nested wildcards yield one flat list
+		return rest.some((s) => s.kind === "wildcard") ? selected.flat() : selected;
+	}
+	if (segment.kind === "index") {
+		return select(
+			Array.isArray(value) ? value.at(segment.index) : undefined,
+			rest,
+		);
+	}
+	return select((value as Record<string, unknown>)[segment.key], rest);
+}
+
+/**
+ * Applies the selector and filters of a reference to a step output.
+ * Missing values are undefined (so `default` applies).
+ */
+export function evaluateStepReference(
+	reference: StepReference,
+	output: unknown,
+): unknown {
+	return reference.filters.reduce(
+		(value, filter) =>
+			(FILTERS[filter.name] as (v: unknown, a?: string | number) => unknown)(
+				value,
+				filter.arg,
+			),
+		select(output, reference.path),
+	);
+}
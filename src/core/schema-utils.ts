@@ -1,3 +1,4 @@
+import { createHash } from "node:crypto";
 import { z } from "zod";
 
 interface JsonSchema {
@@ -71,3 +72,28 @@ export function jsonSchemaToZod(schema: JsonSchema | string): z.ZodTypeAny {
 
 	return z.any();
 }
+
+function canonicalize(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(canonicalize);
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.map((key) => [
+					key,
+					canonicalize((value as Record<string, unknown>)[key]),
+				]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Short content hash of a JSON schema. Key order does not matter.
+ */
+export function getSchemaVersion(schema: unknown): string {
+	return createHash("sha256")
+		.update(JSON.stringify(canonicalize(schema)) ?? "")
+		.digest("hex")
+		.slice(0, 12);
+}
@@ -0,0 +1,216 @@
+import { existsSync } from "node:fs";
+import { appendFile, mkdir, readdir, readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { ModelMessage } from "ai";
+import type { CitadelConfig } from "../config/schema";
+import { getGlobalSingleton, setGlobalSingleton } from "./registry";
+
+export interface TranscriptEntry {
+	timestamp: number;
+	// Role of the agent that produced the run (worker, gatekeeper, ...)
+	agent: string;
+	message: ModelMessage;
+}
+
+export interface Transcript {
+	ticket_id: string;
+	attempt: number;
+	agent: string;
+	started_at: number;
+	path: string;
+	entries: TranscriptEntry[];
+}
+
+const REDACTED = "[REDACTED]";
+const TRANSCRIPT_FILE = /^(.+)-(\d+)\.jsonl$/;
+
+// Well-known credential shapes, and `key: value` pairs with a secret-looking key
+const SECRET_PATTERNS: [RegExp, string][] = [
+	[/sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g, REDACTED],
+	[/gh[pousr]_[A-Za-z0-9]{36,}/g, REDACTED],
+	[/github_pat_[A-Za-z0-9_]{22,}/g, REDACTED],
+	[/AKIA[0-9A-Z]{16}/g, REDACTED],
+	[/xox[abprs]-[A-Za-z0-9-]{10,}/g, REDACTED],
+	[/(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi, `$1${REDACTED}`],
+	[
+		/((?:api[_-]?key|access[_-]?token|auth[_-]?token|secret|password)["']?\s*[:=]\s*["']?)[^\s"',}]{8,}/gi,
+		`$1${REDACTED}`,
+	],
+];
+
+const SECRET_ENV = /KEY|TOKEN|SECRET|PASSWORD|CREDENTIAL/i;
+// Shorter values are too likely to match ordinary text
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Values to scrub from transcripts: provider API keys, MCP server env and
+ * headers, and environment variables that look like credentials.
+ */
+export function collectSecrets(
+	config?: Partial<CitadelConfig>,
+	env: Record<string, string | undefined> = process.env,
+): string[] {
+	const values = [
+		...Object.values(config?.providers || {}).flatMap((p) => [
+			p?.apiKey,
+			p?.apiKeyEnv ? env[p.apiKeyEnv] : undefined,
+			...Object.values(p?.headers || {}),
+		]),
+		...Object.values(config?.mcpServers || {}).flatMap((server) => [
+			...Object.values(server.env || {}),
+			...Object.values(server.headers || {}),
+		]),
+		...Object.entries(env)
+			.filter(([name]) => SECRET_ENV.test(name))
+			.map(([, value]) => value),
+	];
+	return [
+		...new Set(
+			values.filter((v): v is string => !!v && v.length >= MIN_SECRET_LENGTH),
+		),
+	];
+}
+
+/**
+ * Replaces known secret values and credential-shaped strings anywhere in a
+ * value (message text, tool inputs, tool results).
+ */
+export function redactSecrets<T>(value: T, secrets: string[] = []): T {
+	if (typeof value === "string") {
+		let text: string = value;
+		for (const secret of secrets) text = text.split(secret).join(REDACTED);
+		for (const [pattern, replacement] of SECRET_PATTERNS) {
+			text = text.replace(pattern, replacement);
+		}
+		return text as T;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redactSecrets(item, secrets)) as T;
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				redactSecrets(item, secrets),
+			]),
+		) as T;
+	}
+	return value;
+}
+
+/**
+ * Full message history of agent runs, one JSONL file per ticket attempt under
+ * `.citadel/transcripts/<beadId>/<ticketId>-<attempt>.jsonl`. Messages are
+ * appended as the run goes, so cancelled and crashed runs keep theirs.
+ */
+export class TranscriptStore {
+	private root: string;
+
+	constructor(root?: string) {
+		this.root = root || resolve(process.cwd(), ".citadel", "transcripts");
+	}
+
+	getPath(beadId: string, ticketId: string, attempt: number): string {
+		return join(this.root, beadId, `${ticketId}-${attempt}.jsonl`);
+	}
+
+	async append(
+		beadId: string,
+		ticketId: string,
+		attempt: number,
+		entry: TranscriptEntry,
+		secrets: string[] = [],
+	): Promise<void> {
+		await mkdir(join(this.root, beadId), { recursive: true });
+		await appendFile(
+			this.getPath(beadId, ticketId, attempt),
+			`${JSON.stringify(redactSecrets(entry, secrets))}\n`,
+		);
+	}
+
+	/**
+	 * Transcripts of a bead, oldest run first.
+	 */
+	async list(beadId: string): Promise<Transcript[]> {
+		const dir = join(this.root, beadId);
+		if (!existsSync(dir)) return [];
+
+		const transcripts: Transcript[] = [];
+		for (const file of await readdir(dir)) {
+			const match = file.match(TRANSCRIPT_FILE);
+			if (!match) continue;
+			const path = join(dir, file);
+			const entries = (await readFile(path, "utf-8"))
+				.split("\n")
+				.filter((line) => line.trim())
+				.map((line) => JSON.parse(line) as TranscriptEntry);
+			transcripts.push({
+				ticket_id: match[1] as string,
+				attempt: Number(match[2]),
+				agent: entries[0]?.agent ?? "unknown",
+				started_at: entries[0]?.timestamp ?? 0,
+				path,
+				entries,
+			});
+		}
+		return transcripts.sort(
+			(a, b) => a.started_at - b.started_at || a.attempt - b.attempt,
+		);
+	}
+
+	/**
+	 * The most recent run of an agent role on a bead, if any.
+	 */
+	async latest(beadId: string, agent: string): Promise<Transcript | undefined> {
+		return (await this.list(beadId)).filter((t) => t.agent === agent).at(-1);
+	}
+}
+
+function formatContent(content: ModelMessage["content"]): string[] {
+	if (typeof content === "string") return [content];
+	return content.map((part) => {
+		switch (part.type) {
+			case "text":
+				return part.text;
+			case "tool-call":
+				return `-> ${part.toolName}(${JSON.stringify(part.input)})`;
+			case "tool-result": {
+				const output = part.output as { type: string; value?: unknown };
+				const value =
+					typeof output.value === "string"
+						? output.value
+						: JSON.stringify(output.value ?? output);
+				return `<- ${part.toolName}${output.type.startsWith("error") ? " (error)" : ""}: ${value}`;
+			}
+			default:
+				return `[${part.type}]`;
+		}
+	});
+}
+
+/**
+ * Human-readable rendering of a transcript for the CLI.
+ */
+export function formatTranscript(transcript: Transcript): string {
+	const lines = [
+		`=== ${transcript.agent} | ticket ${transcript.ticket_id} | attempt ${transcript.attempt} | ${new Date(transcript.started_at).toISOString()} ===`,
+	];
+	for (const entry of transcript.entries) {
+		lines.push(
+			"",
+			`[${entry.message.role}] ${new Date(entry.timestamp).toISOString()}`,
+			...formatContent(entry.message.content),
+		);
+	}
+	return lines.join("\n");
+}
+
+const TRANSCRIPTS_KEY = "transcript_store";
+
+export function getTranscriptStore(): TranscriptStore {
+	return getGlobalSingleton(TRANSCRIPTS_KEY, () => new TranscriptStore());
+}
+
+export function setTranscriptStoreInstance(store: TranscriptStore) {
+	setGlobalSingleton(TRANSCRIPTS_KEY, store);
+}
@@ -0,0 +1,198 @@
+import type { Formula, FormulaVariable } from "./formula";
+
+export type VariableValues = Record<string, unknown>;
+
+const TRUE_VALUES = ["true", "yes", "1", "on"];
+const FALSE_VALUES = ["false", "no", "0", "off"];
+
+const isMissing = (value: unknown) =>
+	value === undefined || value === null || value === "";
+
+const describeValue = (value: unknown) =>
+	typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+
+/**
+ * Coerces a raw value (CLI string, JSON or TOML value) to the declared type
+ * and checks choices, pattern and min/max. Throws with a readable message.
+ */
+export function coerceVariable(
+	name: string,
+	config: FormulaVariable,
+	value: unknown,
+): unknown {
+	const fail = (reason: string): never => {
+		throw new Error(`${name}: ${reason}, got ${describeValue(value)}`);
+	};
+
+	const checkRange = (n: number, what: string) => {
+		if (config.min !== undefined && n < config.min) {
+			fail(`${what} must be at least ${config.min}`);
+		}
+		if (config.max !== undefined && n > config.max) {
+			fail(`${what} must be at most ${config.max}`);
+		}
+	};
+
+	const checkPattern = (s: string) => {
+		if (config.pattern && !new RegExp(config.pattern).test(s)) {
+			fail(`must match /${config.pattern}/`);
+		}
+	};
+
+	switch (config.type) {
+		case "number": {
+			const n =
+				typeof value === "number"
+					? value
+					: typeof value === "string" && value.trim() !== ""
+						? Number(value)
+						: Number.NaN;
+			if (!Number.isFinite(n)) fail("expected a number");
+			checkRange(n, "value");
+			return n;
+		}
+		case "boolean": {
+			if (typeof value === "boolean") return value;
+			const s = String(value).trim().toLowerCase();
+			if (TRUE_VALUES.includes(s)) return true;
+			if (FALSE_VALUES.includes(s)) return false;
+			return fail("expected a boolean (true/false)");
+		}
+		case "enum": {
+			const s = String(value);
+			if (!config.choices?.includes(s)) {
+				fail(`expected one of ${config.choices?.join(", ")}`);
+			}
+			return s;
+		}
+		case "list": {
+			let items: unknown[];
+			if (Array.isArray(value)) {
+				items = value;
+			} else if (typeof value === "string" && value.trim().startsWith("[")) {
+				try {
+					items = JSON.parse(value);
+				} catch {
+					return fail("expected a JSON array");
+				}
+				if (!Array.isArray(items)) return fail("expected a JSON array");
+			} else if (typeof value === "string") {
+				// Comma-separated shorthand: "a, b, c"
+				items = value
+					.split(",")
+					.map((s) => s.trim())
+					.filter((s) => !!s);
+			} else {
+				return fail("expected a list");
+			}
+			checkRange(items.length, "list length");
+			for (const item of items) {
+				if (typeof item === "string") checkPattern(item);
+			}
+			return items;
+		}
+		case "json": {
+			if (typeof value !== "string") return value;
+			try {
+				return JSON.parse(value);
+			} catch {
+				return fail("expected valid JSON");
+			}
+		}
+		default: {
+			if (typeof value === "object") fail("expected a string");
+			const s = String(value);
+			checkRange(s.length, "length");
+			checkPattern(s);
+			return s;
+		}
+	}
+}
+
+/**
+ * Applies defaults and coerces every declared variable. Undeclared inputs are
+ * passed through unchanged so ad-hoc template variables keep working.
+ */
+export function resolveVariables(
+	formula: Formula,
+	input: VariableValues,
+): { values: VariableValues; errors: string[] } {
+	const values: VariableValues = { ...input };
+	const errors: string[] = [];
+
+	for (const [name, config] of Object.entries(formula.vars || {})) {
+		const raw = isMissing(input[name]) ? config.default : input[name];
+		if (isMissing(raw)) {
+			if (config.required) errors.push(`${name}: missing required variable`);
+			delete values[name];
+			continue;
+		}
+		try {
+			values[name] = coerceVariable(name, config, raw);
+		} catch (error) {
+			errors.push((error as Error).message);
+		}
+	}
+
+	return { values, errors };
+}
+
+/**
+ * Definition-level problems: bad regex, inverted range, invalid default.
+ */
+export function checkVariableDefinition(
+	name: string,
+	config: FormulaVariable,
+): string | null {
+	if (config.pattern) {
+		try {
+			new RegExp(config.pattern);
+		} catch {
+			return `vars.${name}: invalid pattern /${config.pattern}/`;
+		}
+	}
+	if (
+		config.min !== undefined &&
+		config.max !== undefined &&
+		config.min > config.max
+	) {
+		return `vars.${name}: min (${config.min}) is greater than max (${config.max})`;
+	}
+	if (!isMissing(config.default)) {
+		try {
+			coerceVariable(name, config, config.default);
+		} catch (error) {
+			return `vars.${error instanceof Error ? error.message : error} (default)`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Human/LLM-readable summary of a formula's variables, e.g.
+ * "env (enum: dev|prod, required)".
+ */
+export function describeVariables(formula: Formula): string[] {
+	return Object.entries(formula.vars || {}).map(([name, config]) => {
+		const details: string[] = [
+			config.type === "enum"
+				? `enum: ${config.choices?.join("|")}`
+				: config.type,
+		];
+		if (config.required) details.push("required");
+		if (config.pattern) details.push(`pattern: /${config.pattern}/`);
+		if (config.min !== undefined) details.push(`min: ${config.min}`);
+		if (config.max !== undefined) details.push(`max: ${config.max}`);
+		return `${name} (${details.join(", ")}): ${config.description}`;
+	});
+}
+
+/**
+ * String form used for {{var}} interpolation.
+ */
+export function formatVariable(value: unknown): string {
+	if (typeof value === "string") return value;
+	if (value === undefined || value === null) return "";
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
@@ -1,14 +1,26 @@
 #!/usr/bin/env bun
 import { readFileSync } from "node:fs";
-import { access, mkdir, unlink, writeFile } from "node:fs/promises";
+import { access, mkdir, readFile, unlink, writeFile } from "node:fs/promises";
 import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { Command } from "commander";
 import { startBridge } from "./bridge/index";
 import { loadConfig } from "./config";
+import { getArtifactStore } from "./core/artifacts";
 import { getBeads } from "./core/beads";
+import { getCostLedger } from "./core/costs";
+import { formatFormulaIssue, getFormulaRegistry } from "./core/formula";
 import { getQueue } from "./core/queue";
+import { formatTranscript, getTranscriptStore } from "./core/transcripts";
+import { getApprovalService } from "./services/approval";
 import { Conductor } from "./services/conductor";
+import {
+	type DeadLetterService,
+	getDeadLetterService,
+} from "./services/dead-letter";
+import { getMoleculeControl } from "./services/molecule-control";
+import { getRetryService, type RetryResult } from "./services/retry";
+import { formatStatus, getStatusService } from "./services/status";
 import { getWorkflowEngine } from "./services/workflow-engine";
 
 // Read version from package.json
@@ -167,21 +179,42 @@ description = "Create a file named hello_{{name}}.txt with a greeting."
 		}
 	});
 
+// Written by `citadel start` so `citadel drain` can signal the daemon
+const pidFile = () => resolve(process.cwd(), ".citadel", "conductor.pid");
+
 program
 	.command("start")
 	.description("Start the Citadel Conductor service")
 	.action(async () => {
 		try {
-			await loadConfig();
+			const config = await loadConfig();
 			const conductor = new Conductor();
 
-			// Handle shutdown gracefully
-			process.on("SIGINT", () => {
-				console.log("\nReceived SIGINT. Stopping...");
-				conductor.stop();
+			// First signal drains (in-flight tickets may finish), a second one forces exit
+			let draining = false;
+			const shutdown = async (signal: string) => {
+				if (draining) {
+					console.log(`\nReceived ${signal} again. Forcing exit.`);
+					process.exit(1);
+				}
+				draining = true;
+				console.log(
+					`\nReceived ${signal}. Draining (up to ${config.drain.gracePeriod}s, send again to force exit)...`,
+				);
+				const drained = await conductor.drain();
+				console.log(
+					drained
+						? "All in-flight tickets finished."
+						: "Grace period elapsed. Remaining tickets were returned to the queue.",
+				);
+				await unlink(pidFile()).catch(() => {});
 				process.exit(0);
-			});
+			};
+			process.on("SIGINT", () => shutdown("SIGINT"));
+			process.on("SIGTERM", () => shutdown("SIGTERM"));
 
+			await mkdir(dirname(pidFile()), { recursive: true });
+			await writeFile(pidFile(), String(process.pid));
 			conductor.start();
 
 			// Keep alive
@@ -195,6 +228,52 @@ program
 		}
 	});
 
+program
+	.command("drain")
+	.description(
+		"Gracefully stop a running Conductor (in-flight tickets may finish first)",
+	)
+	.option(
+		"-f, --force",
+		"Exit immediately (in-flight tickets are released once their heartbeat goes stale)",
+	)
+	.option("--no-wait", "Do not wait for the Conductor to exit")
+	.action(async (options) => {
+		try {
+			const pid = Number(await readFile(pidFile(), "utf-8").catch(() => ""));
+			if (!pid) {
+				throw new Error(`No running Conductor found (${pidFile()} missing)`);
+			}
+			const isAlive = () => {
+				try {
+					process.kill(pid, 0);
+					return true;
+				} catch {
+					return false;
+				}
+			};
+			if (!isAlive()) {
+				await unlink(pidFile()).catch(() => {});
+				throw new Error(`Conductor ${pid} is not running`);
+			}
+
+			process.kill(pid, "SIGTERM");
+			// A second (distinct, so it is not coalesced) signal forces the exit
+			if (options.force) process.kill(pid, "SIGINT");
+			console.log(`Draining Conductor ${pid}...`);
+
+			if (!options.wait) return;
+			while (isAlive()) {
+				await new Promise((r) => setTimeout(r, 500));
+			}
+			console.log("Conductor stopped.");
+		} catch (error: unknown) {
+			const err = error as Error;
+			console.error("Failed to drain:", err.message);
+			process.exit(1);
+		}
+	});
+
 program
 	.command("reset-queue [beadId]")
 	.description(
@@ -224,18 +303,366 @@ program
 	});
 
 program
-	.command("inspect <beadId>")
-	.description("Inspect the active ticket for a bead")
-	.action(async (beadId) => {
+	.command("inspect <id>")
+	.description(
+		"Inspect the active ticket and attempt history of a bead (or a single ticket)",
+	)
+	.option("--json", "Output as JSON")
+	.action(async (id, options) => {
 		await loadConfig();
-		const ticket = getQueue().getActiveTicket(beadId);
+		const queue = getQueue();
+		const ticket = queue.getActiveTicket(id);
+		const attempts = queue.getAttempts(id);
+
+		if (options.json) {
+			console.log(JSON.stringify({ ticket, attempts }, null, 2));
+			return;
+		}
+
 		if (ticket) {
 			console.log(JSON.stringify(ticket, null, 2));
 		} else {
-			console.log(`No active ticket found for ${beadId}`);
+			console.log(`No active ticket found for ${id}`);
+		}
+
+		if (attempts.length === 0) return;
+		console.log("\nAttempts:");
+		for (const attempt of attempts) {
+			const duration = attempt.ended_at
+				? `${((attempt.ended_at - attempt.started_at) / 1000).toFixed(1)}s`
+				: "running";
+			const tokens =
+				attempt.total_tokens !== null
+					? ` ${attempt.total_tokens} tokens (${attempt.input_tokens} in, ${attempt.output_tokens} out)`
+					: "";
+			console.log(
+				`  #${attempt.attempt} ${attempt.outcome.padEnd(9)} ${attempt.assignee_id} ${new Date(attempt.started_at).toISOString()} ${duration}${tokens} [ticket ${attempt.ticket_id}]`,
+			);
+			if (attempt.error) console.log(`     error: ${attempt.error}`);
+		}
+	});
+
+program
+	.command("artifacts <beadId>")
+	.description("List the artifacts attached to a bead, or export them")
+	.option("-e, --export <dir>", "Copy the artifact files into a directory")
+	.option("--json", "Output as JSON")
+	.action(async (beadId, options) => {
+		try {
+			await loadConfig();
+			const store = getArtifactStore();
+			const bead = await getBeads().get(beadId);
+
+			if (options.export) {
+				const paths = await store.export(bead, resolve(options.export));
+				console.log(
+					`Exported ${paths.length} artifacts to ${resolve(options.export)}`,
+				);
+				return;
+			}
+
+			const artifacts = await store.list(bead);
+			if (options.json) {
+				console.log(JSON.stringify(artifacts, null, 2));
+			} else if (artifacts.length === 0) {
+				console.log(`No artifacts attached to ${beadId}`);
+			} else {
+				for (const artifact of artifacts) {
+					console.log(
+						`${artifact.name}\t${artifact.size} bytes\t${artifact.path}${artifact.description ? `\t${artifact.description}` : ""}`,
+					);
+				}
+			}
+		} catch (error: unknown) {
+			const err = error as Error;
+			console.error("Failed to read artifacts:", err.message);
+			process.exit(1);
+		}
+	});
+
+program
+	.command("transcript <beadId>")
+	.description("Print the agent transcripts of a bead, oldest run first")
+	.option("-t, --ticket <id>", "Only show runs of a single ticket")
+	.option("-a, --attempt <n>", "Only show a single attempt", (value) =>
+		Number.parseInt(value, 10),
+	)
+	.option("--json", "Output as JSON")
+	.action(async (beadId, options) => {
+		const transcripts = (await getTranscriptStore().list(beadId)).filter(
+			(t) =>
+				(!options.ticket || t.ticket_id === options.ticket) &&
+				(options.attempt === undefined || t.attempt === options.attempt),
+		);
+		if (options.json) {
+			console.log(JSON.stringify(transcripts, null, 2));
+		} else if (transcripts.length === 0) {
+			console.log(`No transcripts recorded for ${beadId}`);
+		} else {
+			console.log(transcripts.map(formatTranscript).join("\n\n"));
+		}
+	});
+
+program
+	.command("costs")
+	.description("Report LLM spend per molecule (or per bead of one molecule)")
+	.option("-m, --molecule <id>", "Break a single molecule down by bead")
+	.option("--json", "Output as JSON")
+	.action(async (options) => {
+		const config = await loadConfig();
+		const rows = getCostLedger().summarize(options.molecule);
+		if (options.json) {
+			console.log(JSON.stringify(rows, null, 2));
+			return;
+		}
+		if (rows.length === 0) {
+			console.log("No spend recorded.");
+			return;
+		}
+
+		const budget = options.molecule
+			? config.worker.costLimit
+			: config.worker.moleculeCostLimit;
+		let total = 0;
+		for (const row of rows) {
+			total += row.cost;
+			console.log(
+				`${row.id.padEnd(16)} $${row.cost.toFixed(4).padStart(9)} / $${budget.toFixed(2)}  ${row.input_tokens} in, ${row.output_tokens} out (${row.runs} calls)`,
+			);
 		}
+		console.log(`${"Total".padEnd(16)} $${total.toFixed(4).padStart(9)}`);
 	});
 
+program
+	.command("status")
+	.description("Show molecules, their step beads and queue tickets")
+	.option("--json", "Output as JSON")
+	.option("-m, --molecule <id>", "Only show a single molecule")
+	.option("-w, --watch", "Refresh the view every 2 seconds")
+	.action(async (options) => {
+		await loadConfig();
+		const status = getStatusService();
+
+		const render = async () => {
+			const molecules = await status.getMolecules(options.molecule);
+			if (options.json) {
+				console.log(JSON.stringify(molecules, null, 2));
+			} else {
+				console.log(formatStatus(molecules));
+			}
+		};
+
+		try {
+			if (!options.watch) {
+				await render();
+				return;
+			}
+
+			while (true) {
+				console.clear();
+				await render();
+				await new Promise((resolve) => setTimeout(resolve, 2000));
+			}
+		} catch (error: unknown) {
+			const err = error as Error;
+			console.error("Failed to read status:", err.message);
+			process.exit(1);
+		}
+	});
+
+const controlMolecule = async (
+	action: "pause" | "resume" | "cancel",
+	moleculeId: string,
+) => {
+	try {
+		await loadConfig();
+		const result = await getMoleculeControl()[action](moleculeId);
+		console.log(
+			`Molecule ${result.moleculeId}: ${action} applied to ${result.beads.length} beads (${result.tickets} tickets cancelled).`,
+		);
+	} catch (error: unknown) {
+		const err = error as Error;
+		console.error(`Failed to ${action} molecule:`, err.message);
+		process.exit(1);
+	}
+};
+
+program
+	.command("pause <moleculeId>")
+	.description(
+		"Pause a molecule (stop routing its beads, abort in-flight work)",
+	)
+	.action(async (moleculeId) => controlMolecule("pause", moleculeId));
+
+program
+	.command("resume <moleculeId>")
+	.description("Resume a paused molecule")
+	.action(async (moleculeId) => controlMolecule("resume", moleculeId));
+
+program
+	.command("cancel <moleculeId>")
+	.description(
+		"Cancel a molecule (completed step outputs are kept, everything else is halted)",
+	)
+	.action(async (moleculeId) => controlMolecule("cancel", moleculeId));
+
+const decideGate = async (
+	action: "approve" | "deny",
+	beadId: string,
+	note?: string,
+) => {
+	try {
+		await loadConfig();
+		const result = await getApprovalService()[action](beadId, note);
+		console.log(`Gate ${result.beadId} ${result.decision}.`);
+	} catch (error: unknown) {
+		const err = error as Error;
+		console.error(`Failed to ${action} gate:`, err.message);
+		process.exit(1);
+	}
+};
+
+program
+	.command("approve <beadId>")
+	.description("Approve a human approval gate so its dependents can run")
+	.option("-n, --note <text>", "Note recorded with the decision")
+	.action(async (beadId, options) =>
+		decideGate("approve", beadId, options.note),
+	);
+
+program
+	.command("deny <beadId>")
+	.description("Deny a human approval gate (fails it; dependents are skipped)")
+	.option("-n, --note <text>", "Note recorded with the decision")
+	.action(async (beadId, options) => decideGate("deny", beadId, options.note));
+
+program
+	.command("retry [beadId]")
+	.description("Reset a failed bead to 'open' and archive its old tickets")
+	.option(
+		"-m, --molecule <id>",
+		"Retry beads of a molecule (requires --failed)",
+	)
+	.option("--failed", "Select every failed bead in the molecule")
+	.option(
+		"-i, --instructions <text>",
+		"Extra instructions for the next attempt (stored as custom_instructions)",
+	)
+	.action(async (beadId, options) => {
+		try {
+			await loadConfig();
+			const retry = getRetryService();
+			const retryOptions = { instructions: options.instructions };
+
+			let results: RetryResult[];
+			if (options.molecule) {
+				if (!options.failed) {
+					throw new Error("--molecule requires --failed");
+				}
+				results = await retry.retryFailedInMolecule(
+					options.molecule,
+					retryOptions,
+				);
+			} else if (beadId) {
+				results = [await retry.retry(beadId, retryOptions)];
+			} else {
+				throw new Error("Provide a bead id or --molecule <id> --failed");
+			}
+
+			if (results.length === 0) {
+				console.log("No failed beads found.");
+				return;
+			}
+			for (const result of results) {
+				console.log(
+					`Retrying ${result.beadId} (cleared: ${result.clearedLabels.join(", ") || "none"}, archived tickets: ${result.archivedTickets})`,
+				);
+			}
+		} catch (error: unknown) {
+			const err = error as Error;
+			console.error("Failed to retry:", err.message);
+			process.exit(1);
+		}
+	});
+
+const dlqCommand = program
+	.command("dlq")
+	.description("Inspect and requeue tickets that failed permanently");
+
+// Runs a dead-letter command, reporting errors instead of throwing
+const withDeadLetters = async (
+	action: string,
+	run: (service: DeadLetterService) => Promise<void>,
+) => {
+	try {
+		await loadConfig();
+		await run(getDeadLetterService());
+	} catch (error: unknown) {
+		const err = error as Error;
+		console.error(`Failed to ${action}:`, err.message);
+		process.exit(1);
+	}
+};
+
+dlqCommand
+	.command("list")
+	.description("List dead letters, newest first")
+	.option("--json", "Output as JSON")
+	.action(async (options) =>
+		withDeadLetters("list dead letters", async (service) => {
+			const tickets = service.list();
+			if (options.json) {
+				console.log(JSON.stringify(tickets, null, 2));
+				return;
+			}
+			if (tickets.length === 0) {
+				console.log("Dead-letter queue is empty.");
+				return;
+			}
+			for (const ticket of tickets) {
+				const failedAt = ticket.completed_at
+					? new Date(ticket.completed_at).toISOString()
+					: "unknown";
+				console.log(
+					`${ticket.id}  ${ticket.bead_id}  ${ticket.target_role}  ${failedAt}  ${ticket.failure_reason || "(no reason recorded)"}`,
+				);
+			}
+		}),
+	);
+
+dlqCommand
+	.command("show <id>")
+	.description("Show a dead letter (ticket or bead id) with its attempts")
+	.action(async (id) =>
+		withDeadLetters("show dead letter", async (service) => {
+			console.log(JSON.stringify(service.show(id), null, 2));
+		}),
+	);
+
+dlqCommand
+	.command("requeue <id>")
+	.description("Queue a dead letter again with a fresh retry budget")
+	.action(async (id) =>
+		withDeadLetters("requeue", async (service) => {
+			const ticket = await service.requeue(id);
+			console.log(`Requeued ${ticket.id} (${ticket.bead_id})`);
+		}),
+	);
+
+dlqCommand
+	.command("purge [id]")
+	.description("Delete dead letters (a single one, or all with --all)")
+	.option("--all", "Purge every dead letter")
+	.action(async (id, options) =>
+		withDeadLetters("purge", async (service) => {
+			if (!id && !options.all) {
+				throw new Error("Provide a ticket or bead id, or --all");
+			}
+			const count = service.purge(id);
+			console.log(`Purged ${count} dead letter(s)`);
+		}),
+	);
+
 program
 	.command("bridge")
 	.description("Start The Bridge (TUI Dashboard)")
@@ -243,11 +670,108 @@ program
 		await startBridge();
 	});
 
+// Variables from --vars-file (JSON object), overridden by --vars key=value
+const parseVars = async (items?: string[], file?: string) => {
+	let variables: Record<string, unknown> = {};
+	if (file) {
+		const parsed = JSON.parse(await readFile(resolve(file), "utf-8"));
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+			throw new Error(`${file} must contain a JSON object`);
+		}
+		variables = parsed;
+	}
+	for (const item of items || []) {
+		// Split on the first '=' only so values may contain '='
+		const separator = item.indexOf("=");
+		if (separator <= 0) {
+			throw new Error(`Invalid variable '${item}' (expected key=value)`);
+		}
+		variables[item.slice(0, separator)] = item.slice(separator + 1);
+	}
+	return variables;
+};
+
+const formulaCommand = program
+	.command("formula")
+	.description("Inspect and validate workflow formulas");
+
+formulaCommand
+	.command("validate [name]")
+	.description("Report structural problems in formulas (all, or a single one)")
+	.action(async (name) => {
+		await loadConfig();
+		const registry = getFormulaRegistry();
+		await registry.loadAll();
+
+		const issues = registry.validate(name);
+		if (issues.length === 0) {
+			const count = name ? 1 : registry.list().length;
+			console.log(`✅ ${count} formula(s) valid`);
+			return;
+		}
+
+		for (const issue of issues) {
+			console.error(`❌ ${formatFormulaIssue(issue)}`);
+		}
+		console.error(`\n${issues.length} problem(s) found`);
+		process.exit(1);
+	});
+
+formulaCommand
+	.command("plan <name>")
+	.description("Show the steps and dependencies a formula would create")
+	.option("-v, --vars <items...>", "Variables key=value", [])
+	.option("--vars-file <path>", "JSON file with variables")
+	.option("--json", "Output as JSON")
+	.action(async (name, options) => {
+		await loadConfig();
+		const engine = getWorkflowEngine();
+		await engine.init();
+
+		try {
+			const variables = await parseVars(options.vars, options.varsFile);
+			const plan = engine.planFormula(name, variables);
+			if (options.json) {
+				console.log(JSON.stringify(plan, null, 2));
+				return;
+			}
+
+			console.log(plan.title);
+			console.log("\nSteps:");
+			for (const step of plan.steps) {
+				const condition = step.condition ? ` (if ${step.condition})` : "";
+				const fanOut = step.fanOut ? ` (for each in ${step.fanOut})` : "";
+				const uses = step.uses ? ` (uses ${step.uses})` : "";
+				const gate = step.approval ? " (approval)" : "";
+				console.log(
+					`  ${step.key}: ${step.title}${condition}${fanOut}${uses}${gate}`,
+				);
+			}
+			if (plan.skipped.length > 0) {
+				console.log("\nSkipped:");
+				for (const skipped of plan.skipped) {
+					console.log(`  ${skipped.stepId}: ${skipped.reason}`);
+				}
+			}
+			console.log("\nDependencies:");
+			if (plan.edges.length === 0) console.log("  (none)");
+			for (const edge of plan.edges) {
+				const label = edge.type === "on_failure" ? " (on failure)" : "";
+				console.log(`  ${edge.blocker} -> ${edge.blocked}${label}`);
+			}
+		} catch (error: unknown) {
+			const err = error as Error;
+			console.error("Failed to plan formula:", err.message);
+			process.exit(1);
+		}
+	});
+
 program
 	.command("create <title>")
 	.description("Create a new molecule from a formula")
 	.option("-f, --formula <name>", "Formula name to use")
 	.option("-v, --vars <items...>", "Variables key=value", [])
+	.option("--vars-file <path>", "JSON file with variables")
 	.action(async (_title, options) => {
 		if (!options.formula) {
 			console.error("Error: --formula is required for citadel create");
@@ -258,16 +782,8 @@ program
 		const engine = getWorkflowEngine();
 		await engine.init();
 
-		// Parse variables
-		const variables: Record<string, string> = {};
-		if (options.vars) {
-			for (const item of options.vars) {
-				const [k, v] = item.split("=");
-				if (k && v) variables[k] = v;
-			}
-		}
-
 		try {
+			const variables = await parseVars(options.vars, options.varsFile);
 			const moleculeId = await engine.instantiateFormula(
 				options.formula,
 				variables,
@@ -0,0 +1,93 @@
+import { type Bead, type BeadsClient, getBeads } from "../core/beads";
+import { logger } from "../core/logger";
+
+export const HUMAN_GATE_LABEL = "gate:human";
+export const GATE_DENIED_LABEL = "gate:denied";
+
+export function isHumanGate(bead: Bead): boolean {
+	return !!bead.labels?.includes(HUMAN_GATE_LABEL);
+}
+
+export interface ApprovalResult {
+	beadId: string;
+	decision: "approved" | "denied";
+}
+
+/**
+ * Decisions on human approval gates (`type = "approval"` steps or beads
+ * labelled 'gate:human'). The Conductor never routes gates to an agent;
+ * they stay open, and block their dependents, until approved or denied here.
+ */
+export class ApprovalService {
+	private beads: BeadsClient;
+
+	constructor(beads?: BeadsClient) {
+		this.beads = beads || getBeads();
+	}
+
+	async approve(beadId: string, note?: string): Promise<ApprovalResult> {
+		const gate = await this.getPendingGate(beadId);
+
+		// Left over from an earlier denial that was retried
+		if (gate.labels?.includes(GATE_DENIED_LABEL)) {
+			await this.beads.update(beadId, {
+				// @ts-expect-error - Extension for internal use
+				remove_labels: [GATE_DENIED_LABEL],
+			});
+		}
+		await this.beads.update(beadId, {
+			status: "done",
+			labels: ["approved"],
+			acceptance_test: `Approved${note ? `: ${note}` : ""}`,
+		});
+		await this.beads.addComment(beadId, `Approved${note ? `: ${note}` : ""}`);
+
+		logger.info(`[Approval] Approved ${beadId}`, { beadId });
+		return { beadId, decision: "approved" };
+	}
+
+	async deny(beadId: string, note?: string): Promise<ApprovalResult> {
+		await this.getPendingGate(beadId);
+
+		// 'failed' triggers on_failure handlers; dependents are skipped by the Conductor
+		await this.beads.update(beadId, {
+			status: "done",
+			labels: ["failed", GATE_DENIED_LABEL],
+			acceptance_test: `Denied${note ? `: ${note}` : ""}`,
+		});
+		await this.beads.addComment(beadId, `Denied${note ? `: ${note}` : ""}`);
+
+		logger.info(`[Approval] Denied ${beadId}`, { beadId });
+		return { beadId, decision: "denied" };
+	}
+
+	private async getPendingGate(beadId: string): Promise<Bead> {
+		const bead = await this.beads.get(beadId);
+		if (!isHumanGate(bead)) {
+			throw new Error(
+				`${beadId} is not an approval gate (no '${HUMAN_GATE_LABEL}' label)`,
+			);
+		}
+		if (bead.status === "done") {
+			throw new Error(`${beadId} has already been decided`);
+		}
+
+		const blockers = await Promise.all(
+			(bead.blockers || []).map((id) => this.beads.get(id)),
+		);
+		const pending = blockers.filter((b) => b.status !== "done");
+		if (pending.length > 0) {
+			throw new Error(
+				`${beadId} is still waiting for ${pending.map((b) => b.id).join(", ")}`,
+			);
+		}
+		return bead;
+	}
+}
+
+// Singleton
+let _approvals: ApprovalService | null = null;
+export function getApprovalService(): ApprovalService {
+	if (!_approvals) _approvals = new ApprovalService();
+	return _approvals;
+}
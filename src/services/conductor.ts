@@ -3,13 +3,32 @@ import { RouterAgent } from "../agents/router";
 import { WorkerAgent } from "../agents/worker";
 import { getConfig } from "../config";
 import type { CitadelConfig } from "../config/schema";
-import { type BeadsClient, getBeads } from "../core/beads";
-import { Hook } from "../core/hooks";
+import type { CoreAgent } from "../core/agent";
+import { getArtifactStore } from "../core/artifacts";
+import { type Bead, type BeadsClient, getBeads } from "../core/beads";
+import { BUDGET_EXCEEDED_LABEL, isBudgetExceededError } from "../core/costs";
+import { evaluateCondition } from "../core/expression";
+import {
+	getFormulaRegistry,
+	getStepDefinition,
+	stepsReferencedBy,
+} from "../core/formula";
+import { Hook, isTimeoutError, type TicketPolicy } from "../core/hooks";
 import { logger } from "../core/logger";
 import { WorkerPool } from "../core/pool";
-import { getQueue, type WorkQueue } from "../core/queue";
+import { getQueue, type Ticket, type WorkQueue } from "../core/queue";
+import { getTranscriptStore } from "../core/transcripts";
+import { GATE_DENIED_LABEL, isHumanGate } from "./approval";
+import { DEAD_LETTER_LABEL, DeadLetterService } from "./dead-letter";
+import { FANOUT_LABEL, FanOutService } from "./fanout";
 import { getMCPService } from "./mcp";
-import { getPiper } from "./piper";
+import { isMoleculeHalted } from "./molecule-control";
+import { getPiper, isUnknownStepError } from "./piper";
+import {
+	SUBFORMULA_EXPANDED_LABEL,
+	SUBFORMULA_LABEL,
+	SubFormulaService,
+} from "./subformula";
 
 export class Conductor {
 	private isRunning = false;
@@ -24,6 +43,9 @@ export class Conductor {
 
 	private beads: BeadsClient;
 	private queue: WorkQueue;
+	private fanOut: FanOutService;
+	private subFormulas: SubFormulaService;
+	private deadLetters: DeadLetterService;
 
 	constructor(
 		beads?: BeadsClient,
@@ -34,6 +56,9 @@ export class Conductor {
 		this.beads = beads || getBeads();
 		this.queue = queue || getQueue();
 		this.config = config || getConfig();
+		this.fanOut = new FanOutService(this.beads);
+		this.subFormulas = new SubFormulaService(this.beads);
+		this.deadLetters = new DeadLetterService(this.beads, this.queue);
 
 		// Debug parallel test issue
 		// @ts-expect-error
@@ -51,7 +76,7 @@ export class Conductor {
 				new Hook(
 					id,
 					"worker",
-					async (ticket) => {
+					async (ticket, signal) => {
 						logger.info(`[Worker] Processing ${ticket.bead_id}`, {
 							beadId: ticket.bead_id,
 						});
@@ -72,10 +97,23 @@ export class Conductor {
 							return;
 						}
 
+						// What the last worker tried, for retries and reworks
+						const previousTranscript = await this.latestTranscript(
+							ticket.bead_id,
+							"worker",
+						);
+
 						try {
 							const result = await agent.run(
 								`Process this task: ${bead.title}`,
-								{ beadId: ticket.bead_id, bead },
+								{
+									beadId: ticket.bead_id,
+									bead,
+									...(previousTranscript
+										? { previous_transcript: previousTranscript }
+										: {}),
+								},
+								{ signal, transcript: this.transcriptOf(ticket) },
 							);
 
 							// Check if the bead was actually transitioned by the agent
@@ -94,20 +132,54 @@ export class Conductor {
 							}
 							return result;
 						} catch (error) {
-							// Agent crashed - mark as failed
+							if (signal.aborted) {
+								// Ticket was cancelled (molecule paused/cancelled) or timed out - release the bead without failure labels
+								logger.warn(
+									`[Worker] Aborted work on ${ticket.bead_id}: ${signal.reason}`,
+									{ beadId: ticket.bead_id },
+								);
+								const current = await this.beads.get(ticket.bead_id);
+								if (current.status === "in_progress") {
+									await this.beads.update(ticket.bead_id, { status: "open" });
+								}
+								return;
+							}
+
+							// Agent crashed - release the bead and let the Hook retry the ticket
 							logger.error(
 								`[Worker] Agent failed for ${ticket.bead_id}`,
 								error,
 							);
-							const currentLabels = bead?.labels || [];
-							await this.beads.update(ticket.bead_id, {
-								status: "open",
-								labels: [...currentLabels, "failed", "agent-error"],
-							});
+							await this.beads.update(ticket.bead_id, { status: "open" });
+							throw error;
+						} finally {
+							this.recordUsage(ticket.id, agent);
 						}
 					},
 					this.queue,
 					this.config.worker.maxRetries,
+					{
+						policy: (ticket) => this.resolveWorkerPolicy(ticket),
+						// Retrying would only spend more
+						isPermanent: isBudgetExceededError,
+						onFailed: async (ticket, error) => {
+							// Retries exhausted (or budget spent) - mark as failed
+							const reason = isBudgetExceededError(error)
+								? BUDGET_EXCEEDED_LABEL
+								: isTimeoutError(error)
+									? "agent-timeout"
+									: "agent-error";
+							logger.error(
+								`[Worker] Giving up on ${ticket.bead_id} after ${ticket.retry_count} retries (${reason})`,
+								{ beadId: ticket.bead_id },
+							);
+							await this.beads.update(ticket.bead_id, {
+								status: "open",
+								labels: ["failed", reason],
+							});
+							await this.deadLetters.record(ticket, error);
+						},
+					},
 				),
 			this.config.worker.min_workers,
 		);
@@ -119,7 +191,7 @@ export class Conductor {
 				new Hook(
 					id,
 					"gatekeeper",
-					async (ticket) => {
+					async (ticket, signal) => {
 						logger.info(`[Gatekeeper] Verifying ${ticket.bead_id}`, {
 							beadId: ticket.bead_id,
 						});
@@ -135,12 +207,35 @@ export class Conductor {
 							);
 						}
 
+						// Files attached by the worker (attach_artifact)
+						const artifacts = (await getArtifactStore().list(bead)).map(
+							({ name, path, size, description }) => ({
+								name,
+								path,
+								size,
+								description,
+							}),
+						);
+
+						const workerTranscript = await this.latestTranscript(
+							ticket.bead_id,
+							"worker",
+						);
+
 						try {
-							await agent.run(`Verify this work: ${bead.title}`, {
-								beadId: ticket.bead_id,
-								bead,
-								submitted_work: submittedWork,
-							});
+							await agent.run(
+								`Verify this work: ${bead.title}`,
+								{
+									beadId: ticket.bead_id,
+									bead,
+									submitted_work: submittedWork,
+									...(artifacts.length > 0 ? { artifacts } : {}),
+									...(workerTranscript
+										? { worker_transcript: workerTranscript }
+										: {}),
+								},
+								{ signal, transcript: this.transcriptOf(ticket) },
+							);
 
 							// Check if the bead was actually transitioned by the agent
 							const finalBead = await this.beads.get(ticket.bead_id);
@@ -158,6 +253,23 @@ export class Conductor {
 								// Note: We keep it in 'verify' so it can be re-evaluated
 							}
 						} catch (error) {
+							if (signal.aborted) {
+								// Cancelled mid-verification - leave the bead in 'verify' untouched
+								logger.warn(
+									`[Gatekeeper] Aborted verification of ${ticket.bead_id}`,
+									{ beadId: ticket.bead_id },
+								);
+								return;
+							}
+
+							if (isBudgetExceededError(error)) {
+								// Fails the ticket for good (see isPermanent)
+								await this.beads.update(ticket.bead_id, {
+									labels: ["failed", BUDGET_EXCEEDED_LABEL],
+								});
+								throw error;
+							}
+
 							// Agent crashed - keep in verify for retry
 							logger.error(
 								`[Gatekeeper] Agent failed for ${ticket.bead_id}`,
@@ -167,15 +279,67 @@ export class Conductor {
 								status: "verify",
 								labels: [...(bead.labels || []), "evaluator-error"],
 							});
+						} finally {
+							this.recordUsage(ticket.id, agent);
 						}
 					},
 					this.queue,
-					3,
-				), // Default 3 retries for gatekeeper
+					this.config.gatekeeper.maxRetries,
+					{
+						policy: () => ({
+							timeoutMs: this.config.gatekeeper.timeout * 1000,
+						}),
+						isPermanent: isBudgetExceededError,
+						onFailed: (ticket, error) => this.deadLetters.record(ticket, error),
+					},
+				),
 			this.config.gatekeeper.min_workers,
 		);
 	}
 
+	/**
+	 * Attempt bookkeeping must never fail the ticket itself.
+	 */
+	private recordUsage(ticketId: string, agent: CoreAgent) {
+		try {
+			this.queue.recordUsage(ticketId, agent.lastUsage);
+		} catch (error) {
+			logger.warn(`[Conductor] Failed to record usage for ${ticketId}`, {
+				error,
+			});
+		}
+	}
+
+	/**
+	 * The attempt a run records its transcript under (undefined if unknown).
+	 */
+	private transcriptOf(ticket: Ticket) {
+		try {
+			const attempt = this.queue.getAttempts(ticket.id).at(-1)?.attempt ?? 1;
+			return { ticketId: ticket.id, attempt };
+		} catch (error) {
+			logger.warn(`[Conductor] No transcript for ${ticket.id}`, { error });
+			return undefined;
+		}
+	}
+
+	/**
+	 * Path of the latest transcript an agent role left on a bead.
+	 */
+	private async latestTranscript(
+		beadId: string,
+		agent: string,
+	): Promise<string | undefined> {
+		try {
+			return (await getTranscriptStore().latest(beadId, agent))?.path;
+		} catch (error) {
+			logger.warn(`[Conductor] Failed to read transcripts of ${beadId}`, {
+				error,
+			});
+			return undefined;
+		}
+	}
+
 	async start() {
 		if (this.isRunning) return;
 		this.isRunning = true;
@@ -183,9 +347,20 @@ export class Conductor {
 
 		// Initialize MCP
 		await getMCPService().initialize();
+		// stop() or drain() may land while start() is awaiting
+		if (!this.isRunning) return;
+
+		// Step definitions (output schemas, deferred conditions) come from formulas
+		try {
+			await getFormulaRegistry().loadAll();
+		} catch (error) {
+			logger.error("[Conductor] Failed to load formulas", error);
+		}
+		if (!this.isRunning) return;
 
 		// Check environment sanity
 		const healthy = await this.validateEnvironment();
+		if (!this.isRunning) return;
 		if (!healthy) {
 			this.isRunning = false;
 			await getMCPService().shutdown();
@@ -216,6 +391,47 @@ export class Conductor {
 		await getMCPService().shutdown();
 	}
 
+	/**
+	 * Graceful shutdown: stops routing and claiming, gives in-flight tickets
+	 * up to `gracePeriodMs` to finish, then cancels the rest (their tickets
+	 * go back to the queue). Resolves true if nothing had to be cancelled.
+	 */
+	async drain(
+		gracePeriodMs = this.config.drain.gracePeriod * 1000,
+	): Promise<boolean> {
+		this.isRunning = false;
+		if (this.routerTimer) {
+			clearTimeout(this.routerTimer);
+			this.routerTimer = null;
+		}
+		logger.info(
+			`[Conductor] Draining (grace period ${gracePeriodMs / 1000}s)...`,
+		);
+
+		const idle = Promise.all([
+			this.workerPool.drain(),
+			this.gatekeeperPool.drain(),
+		]);
+		let timer: Timer | undefined;
+		const drained = await Promise.race([
+			idle.then(() => true),
+			new Promise<boolean>((resolve) => {
+				timer = setTimeout(() => resolve(false), gracePeriodMs);
+			}),
+		]);
+		clearTimeout(timer);
+
+		if (!drained) {
+			logger.warn(
+				"[Conductor] Grace period elapsed. Cancelling in-flight tickets.",
+			);
+		}
+		await this.stop();
+		// Cancelled tickets are handed back to the queue before we return
+		await idle;
+		return drained;
+	}
+
 	private async validateEnvironment(): Promise<boolean> {
 		logger.info("[Conductor] Validating environment...");
 		const healthy = await this.beads.doctor();
@@ -260,6 +476,81 @@ export class Conductor {
 		}
 	}
 
+	/**
+	 * Retry, timeout and backoff for a worker ticket: the formula step's
+	 * policy if the bead was cooked from one, else the worker config.
+	 */
+	private async resolveWorkerPolicy(
+		ticket: Ticket,
+	): Promise<Partial<TicketPolicy>> {
+		const bead = await this.beads.get(ticket.bead_id).catch(() => null);
+		const step = bead ? getStepDefinition(bead) : undefined;
+		return {
+			maxRetries: step?.retries ?? this.config.worker.maxRetries,
+			timeoutMs: (step?.timeout_seconds ?? this.config.worker.timeout) * 1000,
+			backoff: step?.backoff && {
+				strategy: step.backoff.strategy,
+				baseMs: step.backoff.base * 1000,
+				maxMs: step.backoff.max * 1000,
+			},
+		};
+	}
+
+	/**
+	 * Evaluates a step condition that references upstream outputs.
+	 * Returns false (after closing the bead) if the step must not run.
+	 */
+	private async checkDeferredCondition(bead: Bead): Promise<boolean> {
+		const condition = getStepDefinition(bead)?.if;
+		if (!condition) {
+			logger.warn(
+				`[Router] No condition found for conditional bead ${bead.id}; routing it`,
+				{ beadId: bead.id },
+			);
+			return true;
+		}
+
+		let passed: boolean;
+		try {
+			const root = bead.parent ? await this.beads.get(bead.parent) : null;
+			const vars = (root?.context?.vars || {}) as Record<string, unknown>;
+			const steps = await getPiper().getStepOutputs(
+				bead,
+				stepsReferencedBy(condition),
+			);
+			passed = evaluateCondition(condition, {
+				...vars,
+				vars,
+				...(bead.context || {}),
+				steps,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.error(
+				`[Router] Failed to evaluate condition for ${bead.id}: ${message}`,
+				{ beadId: bead.id },
+			);
+			await this.beads.update(bead.id, {
+				status: "done",
+				labels: ["failed"],
+				acceptance_test: `Failed: could not evaluate condition '${condition}': ${message}`,
+			});
+			return false;
+		}
+
+		if (!passed) {
+			logger.info(
+				`[Router] Skipping conditional bead ${bead.id} (condition '${condition}' false)`,
+				{ beadId: bead.id },
+			);
+			await this.beads.update(bead.id, {
+				status: "done",
+				acceptance_test: `Skipped: condition false (${condition})`,
+			});
+		}
+		return passed;
+	}
+
 	private async cycleRouter() {
 		const beadsClient = this.beads;
 		const queue = this.queue;
@@ -345,20 +636,66 @@ export class Conductor {
 					continue;
 				}
 
+				// Paused or cancelled molecules are left alone until resumed
+				if (isMoleculeHalted(fresh)) {
+					logger.debug(`[Router] Skipping halted bead ${bead.id}`, {
+						beadId: bead.id,
+					});
+					continue;
+				}
+
+				// Dead letters wait for `citadel dlq requeue` (or `citadel retry`)
+				if (fresh.labels?.includes(DEAD_LETTER_LABEL)) {
+					logger.debug(`[Router] Skipping dead-lettered bead ${bead.id}`, {
+						beadId: bead.id,
+					});
+					continue;
+				}
+
 				// Race Condition Fix: Double check blockers
-				if (fresh.blockers && fresh.blockers.length > 0) {
-					const blockers = await Promise.all(
-						fresh.blockers.map((id) => beadsClient.get(id)),
+				const blockers = await Promise.all(
+					(fresh.blockers || []).map((id) => beadsClient.get(id)),
+				);
+				const activeBlockers = blockers.filter((b) => b.status !== "done");
+
+				if (activeBlockers.length > 0) {
+					logger.warn(
+						`[Router] Skipping ${bead.id} - incorrectly marked ready (blocked by ${activeBlockers.map((b) => b.id).join(", ")})`,
+						{ beadId: bead.id },
+					);
+					continue;
+				}
+
+				// --- Denied Approval Gates ---
+				// Work behind a denied gate never runs (recovery steps still do)
+				const deniedBy = blockers.find((b) =>
+					b.labels?.includes(GATE_DENIED_LABEL),
+				);
+				if (deniedBy && !fresh.labels?.includes("recovery")) {
+					logger.info(
+						`[Router] Skipping ${bead.id} (approval denied upstream by ${deniedBy.id})`,
+						{ beadId: bead.id },
 					);
-					const activeBlockers = blockers.filter((b) => b.status !== "done");
+					await beadsClient.update(bead.id, {
+						status: "done",
+						labels: [GATE_DENIED_LABEL],
+						acceptance_test: `Skipped: approval denied (${deniedBy.id})`,
+					});
+					continue;
+				}
 
-					if (activeBlockers.length > 0) {
-						logger.warn(
-							`[Router] Skipping ${bead.id} - incorrectly marked ready (blocked by ${activeBlockers.map((b) => b.id).join(", ")})`,
-							{ beadId: bead.id },
-						);
-						continue;
-					}
+				// --- Dynamic Fan-out ---
+				// Templates are never routed: they expand into item beads, then close once those are done
+				if (fresh.labels?.includes(FANOUT_LABEL)) {
+					await this.fanOut.process(fresh);
+					continue;
+				}
+
+				// --- Sub-formulas ---
+				// Cooked placeholders close once their nested molecule is done
+				if (fresh.labels?.includes(SUBFORMULA_EXPANDED_LABEL)) {
+					await this.subFormulas.complete(fresh);
+					continue;
 				}
 
 				// --- Recovery Logic ---
@@ -393,7 +730,19 @@ export class Conductor {
 				// --- Data Piping ---
 				// Try to resolve dynamic context dependencies
 				// If context still has unresolved references, we wait.
-				const piped = await getPiper().pipeData(bead.id);
+				let piped: boolean;
+				try {
+					piped = await getPiper().pipeData(bead.id);
+				} catch (error) {
+					if (!isUnknownStepError(error)) throw error;
+					// A typo in the formula; waiting would never resolve it
+					await beadsClient.update(bead.id, {
+						status: "done",
+						labels: ["failed"],
+						acceptance_test: `Failed: ${(error as Error).message}`,
+					});
+					continue;
+				}
 				if (piped) {
 					logger.info(`[Router] Piped data for ${bead.id}`);
 				}
@@ -411,6 +760,30 @@ export class Conductor {
 					}
 				}
 
+				// --- Deferred Conditions ---
+				// Steps whose `if` reads upstream outputs are decided now that data is piped
+				if (
+					currentBead.labels?.includes("conditional") &&
+					!(await this.checkDeferredCondition(currentBead))
+				) {
+					continue;
+				}
+
+				// --- Approval Gates ---
+				// Gates wait for `citadel approve` / `citadel deny`, never for an agent
+				if (isHumanGate(currentBead)) {
+					logger.debug(`[Router] Skipping ${bead.id} (awaiting approval)`, {
+						beadId: bead.id,
+					});
+					continue;
+				}
+
+				// `uses` steps are cooked into a nested molecule instead of being routed
+				if (currentBead.labels?.includes(SUBFORMULA_LABEL)) {
+					await this.subFormulas.cook(currentBead);
+					continue;
+				}
+
 				logger.info(`[Router] Found ready bead: ${bead.id}`, {
 					beadId: bead.id,
 				});
@@ -429,7 +802,11 @@ export class Conductor {
 			const active = queue.getActiveTicket(bead.id);
 			if (!active) {
 				const fresh = await beadsClient.get(bead.id);
-				if (fresh.status !== "verify") {
+				if (
+					fresh.status !== "verify" ||
+					isMoleculeHalted(fresh) ||
+					fresh.labels?.includes(DEAD_LETTER_LABEL)
+				) {
 					continue;
 				}
 
@@ -451,10 +828,9 @@ export class Conductor {
 
 					// Force complete the ticket to allow gatekeeper assignment
 					try {
-						// @ts-expect-error - Accessing private DB for explicit cleanup
-						this.queue.db.run(
-							`UPDATE tickets SET status = 'completed', completed_at = ? WHERE id = ?`,
-							[Date.now(), active.id],
+						this.queue.forceComplete(
+							active.id,
+							"Bead reached verify without the worker completing its ticket",
 						);
 					} catch (e) {
 						logger.error(
@@ -0,0 +1,114 @@
+import { type BeadsClient, getBeads } from "../core/beads";
+import type { CostLedger } from "../core/costs";
+import { logger } from "../core/logger";
+import {
+	getQueue,
+	type Ticket,
+	type TicketAttempt,
+	type WorkQueue,
+} from "../core/queue";
+import { FAILURE_LABELS, resetBudgets } from "./retry";
+
+export const DEAD_LETTER_LABEL = "dead-letter";
+
+export interface DeadLetter {
+	ticket: Ticket;
+	attempts: TicketAttempt[];
+}
+
+/**
+ * Tickets that failed permanently. The Conductor labels their bead
+ * `dead-letter` (and stops routing it) until they are requeued.
+ */
+export class DeadLetterService {
+	private beads: BeadsClient;
+	private queue: WorkQueue;
+	private ledger?: CostLedger;
+
+	constructor(beads?: BeadsClient, queue?: WorkQueue, ledger?: CostLedger) {
+		this.beads = beads || getBeads();
+		this.queue = queue || getQueue();
+		this.ledger = ledger;
+	}
+
+	list(): Ticket[] {
+		return this.queue.listDeadLetters();
+	}
+
+	/**
+	 * Looks a dead letter up by ticket id, or by the bead it belongs to.
+	 */
+	show(id: string): DeadLetter {
+		const ticket = this.find(id);
+		return { ticket, attempts: this.queue.getAttempts(ticket.id) };
+	}
+
+	/**
+	 * Labels the bead of a ticket that just failed permanently and records why.
+	 */
+	async record(ticket: Ticket, error: unknown): Promise<void> {
+		const reason =
+			this.queue.getTicket(ticket.id)?.failure_reason ||
+			(error instanceof Error ? error.message : String(error));
+		await this.beads.update(ticket.bead_id, { labels: [DEAD_LETTER_LABEL] });
+		await this.beads.addComment(
+			ticket.bead_id,
+			`Ticket ${ticket.id} (${ticket.target_role}) moved to the dead-letter queue after ${ticket.retry_count} retries: ${reason}`,
+		);
+		logger.error(`[DeadLetter] ${ticket.bead_id}: ${reason}`, {
+			beadId: ticket.bead_id,
+		});
+	}
+
+	/**
+	 * Queues the ticket again with fresh retry and cost budgets and clears the failure labels.
+	 */
+	async requeue(id: string): Promise<Ticket> {
+		const ticket = this.find(id);
+		if (this.queue.getActiveTicket(ticket.bead_id)) {
+			throw new Error(`${ticket.bead_id} already has an active ticket`);
+		}
+
+		const bead = await this.beads.get(ticket.bead_id);
+		const clearedLabels = (bead.labels || []).filter((l) =>
+			FAILURE_LABELS.includes(l),
+		);
+		await this.beads.update(ticket.bead_id, {
+			// Workers pick up open beads, gatekeepers keep them in verify
+			...(ticket.target_role === "worker" ? { status: "open" as const } : {}),
+			// @ts-expect-error - Extension for internal use
+			remove_labels: clearedLabels,
+		});
+		this.queue.requeueDeadLetter(ticket.id);
+		await resetBudgets(bead, clearedLabels, this.beads, this.ledger);
+		await this.beads.addComment(
+			ticket.bead_id,
+			`Ticket ${ticket.id} requeued from the dead-letter queue`,
+		);
+
+		logger.info(`[DeadLetter] Requeued ${ticket.id}`, {
+			beadId: ticket.bead_id,
+		});
+		return ticket;
+	}
+
+	/**
+	 * Drops dead letters for good (all of them without an id). Beads keep their labels.
+	 */
+	purge(id?: string): number {
+		return this.queue.purgeDeadLetters(id ? this.find(id).id : undefined);
+	}
+
+	private find(id: string): Ticket {
+		const ticket = this.list().find((t) => t.id === id || t.bead_id === id);
+		if (!ticket) throw new Error(`No dead letter found for ${id}`);
+		return ticket;
+	}
+}
+
+// Singleton
+let _deadLetters: DeadLetterService | null = null;
+export function getDeadLetterService(): DeadLetterService {
+	if (!_deadLetters) _deadLetters = new DeadLetterService();
+	return _deadLetters;
+}
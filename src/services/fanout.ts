@@ -0,0 +1,165 @@
+import { type Bead, type BeadsClient, getBeads } from "../core/beads";
+import { getStepDefinition, parseItemsReference } from "../core/formula";
+import { logger } from "../core/logger";
+import { evaluateStepReference } from "../core/reference";
+import { formatVariable } from "../core/variables";
+import { getPiper } from "./piper";
+
+export const FANOUT_LABEL = "fanout";
+export const FANOUT_EXPANDED_LABEL = "fanout:expanded";
+export const FANOUT_OF_PREFIX = "fanout-of:";
+const FANOUT_INDEX_PREFIX = "fanout-index:";
+
+export function getFanOutIndex(bead: Bead): number {
+	const label = bead.labels?.find((l) => l.startsWith(FANOUT_INDEX_PREFIX));
+	return label ? Number(label.slice(FANOUT_INDEX_PREFIX.length)) : 0;
+}
+
+/**
+ * Expands fan-out template beads into one bead per item of an upstream output.
+ *
+ * The WorkflowEngine creates a single template bead (label 'fanout') for a
+ * step whose `for.items` references another step. Once the template is ready,
+ * its items are created as siblings and the template is made to wait for them.
+ * Downstream steps already depend on the template, so they wait for every item.
+ * When the items are done the template closes. The Piper then returns their
+ * outputs as an array.
+ */
+export class FanOutService {
+	private beads: BeadsClient;
+
+	constructor(beads?: BeadsClient) {
+		this.beads = beads || getBeads();
+	}
+
+	async process(template: Bead): Promise<void> {
+		if (template.labels?.includes(FANOUT_EXPANDED_LABEL)) {
+			await this.complete(template);
+		} else {
+			await this.expand(template);
+		}
+	}
+
+	private async expand(template: Bead): Promise<void> {
+		const loop = getStepDefinition(template)?.for;
+		const ref = loop ? parseItemsReference(loop.items) : null;
+		if (!loop || !ref) {
+			await this.fail(template, "No fan-out definition found for this step");
+			return;
+		}
+
+		const outputs = await getPiper().getStepOutputs(template, [ref.stepId]);
+		let items = evaluateStepReference(ref, outputs[ref.stepId]?.output);
+
+		if (typeof items === "string") {
+			try {
+				items = JSON.parse(items);
+			} catch {
+				// Not JSON; rejected below
+			}
+		}
+		if (!Array.isArray(items)) {
+			await this.fail(
+				template,
+				`Fan-out items ${loop.items} did not resolve to a list`,
+			);
+			return;
+		}
+
+		const stepLabels = (template.labels || []).filter(
+			(l) =>
+				l.startsWith("step:") ||
+				l.startsWith("formula:") ||
+				l === "conditional",
+		);
+		const placeholder = new RegExp(`{{${loop.as}}}`, "g");
+		const created: string[] = [];
+
+		for (const [index, item] of items.entries()) {
+			const value = formatVariable(item);
+			const bead = await this.beads.create(
+				template.title.replace(placeholder, () => value),
+				{
+					parent: template.parent,
+					description: template.description?.replace(placeholder, () => value),
+					context: { ...(template.context || {}), [loop.as]: item },
+				},
+			);
+			await this.beads.update(bead.id, {
+				labels: [
+					...stepLabels,
+					`${FANOUT_OF_PREFIX}${template.id}`,
+					`${FANOUT_INDEX_PREFIX}${index}`,
+					"molecule:cooking",
+				],
+			});
+
+			// Items see the same upstream data as the template
+			for (const blocker of template.blockers || []) {
+				await this.beads.addDependency(bead.id, blocker);
+			}
+			await this.beads.addDependency(template.id, bead.id);
+			created.push(bead.id);
+		}
+
+		await this.beads.update(template.id, { labels: [FANOUT_EXPANDED_LABEL] });
+		for (const id of created) {
+			await this.beads.update(id, {
+				// @ts-expect-error - Extension for internal use
+				remove_labels: ["molecule:cooking"],
+			});
+		}
+
+		logger.info(
+			`[FanOut] Expanded ${template.id} into ${created.length} beads`,
+			{ beadId: template.id, items: created.length },
+		);
+
+		// Nothing to wait for: close right away
+		if (created.length === 0) {
+			await this.complete({
+				...template,
+				labels: [...(template.labels || []), FANOUT_EXPANDED_LABEL],
+			});
+		}
+	}
+
+	private async complete(template: Bead): Promise<void> {
+		const items = (
+			await Promise.all(
+				(template.blockers || []).map((id) => this.beads.get(id)),
+			)
+		).filter((b) => b.labels?.includes(`${FANOUT_OF_PREFIX}${template.id}`));
+
+		if (items.some((b) => b.status !== "done")) return;
+
+		const failed = items.filter((b) => b.labels?.includes("failed"));
+		if (failed.length > 0) {
+			// Propagate so on_failure handlers of the step run
+			await this.beads.update(template.id, {
+				status: "done",
+				labels: ["failed"],
+				acceptance_test: `Fan-out: ${failed.length} of ${items.length} items failed (${failed.map((b) => b.id).join(", ")})`,
+			});
+		} else {
+			await this.beads.update(template.id, {
+				status: "done",
+				acceptance_test: `Fan-out: all ${items.length} items completed`,
+			});
+		}
+		logger.info(`[FanOut] Closed ${template.id}`, {
+			beadId: template.id,
+			items: items.length,
+			failed: failed.length,
+		});
+	}
+
+	private async fail(template: Bead, reason: string): Promise<void> {
+		logger.error(`[FanOut] ${reason} (${template.id})`);
+		await this.beads.update(template.id, {
+			status: "done",
+			labels: ["failed"],
+			acceptance_test: `Failed: ${reason}`,
+		});
+	}
+}
@@ -124,6 +124,7 @@ export class MCPService {
 		serverName: string,
 		toolName: string,
 		args: Record<string, unknown>,
+		signal?: AbortSignal,
 	): Promise<unknown> {
 		const client = this.clients.get(serverName);
 		if (!client) {
@@ -131,10 +132,15 @@ export class MCPService {
 		}
 
 		logger.info(`[MCP] Calling tool ${serverName}:${toolName}`, { args });
-		return await client.callTool({
-			name: toolName,
-			arguments: args,
-		});
+		// Aborting sends a cancellation notification to the server
+		return await client.callTool(
+			{
+				name: toolName,
+				arguments: args,
+			},
+			undefined,
+			{ signal },
+		);
 	}
 
 	async readResource(serverName: string, uri: string): Promise<string[]> {
@@ -0,0 +1,127 @@
+import { type Bead, type BeadsClient, getBeads } from "../core/beads";
+import { logger } from "../core/logger";
+import { getQueue, type WorkQueue } from "../core/queue";
+
+export const PAUSED_LABEL = "molecule:paused";
+export const CANCELLED_LABEL = "molecule:cancelled";
+
+/**
+ * True if the bead belongs to a paused or cancelled molecule and must not be routed.
+ */
+export function isMoleculeHalted(bead: Bead): boolean {
+	return !!bead.labels?.some(
+		(l) => l === PAUSED_LABEL || l === CANCELLED_LABEL,
+	);
+}
+
+export interface ControlResult {
+	moleculeId: string;
+	beads: string[]; // Step beads whose state was changed
+	tickets: number; // Queued or in-flight tickets that were cancelled
+}
+
+/**
+ * Pause, resume and cancel whole molecules.
+ * State lives in bead labels (read by the Conductor) and ticket status
+ * (read by the Hooks), so this works against a running daemon.
+ */
+export class MoleculeControl {
+	private beads: BeadsClient;
+	private queue: WorkQueue;
+
+	constructor(beads?: BeadsClient, queue?: WorkQueue) {
+		this.beads = beads || getBeads();
+		this.queue = queue || getQueue();
+	}
+
+	async pause(moleculeId: string): Promise<ControlResult> {
+		const root = await this.getRoot(moleculeId);
+		if (root.labels?.includes(CANCELLED_LABEL)) {
+			throw new Error(`Molecule ${moleculeId} is cancelled`);
+		}
+		return this.halt(root, PAUSED_LABEL, "paused");
+	}
+
+	async cancel(moleculeId: string): Promise<ControlResult> {
+		const root = await this.getRoot(moleculeId);
+		return this.halt(root, CANCELLED_LABEL, "cancelled");
+	}
+
+	async resume(moleculeId: string): Promise<ControlResult> {
+		const root = await this.getRoot(moleculeId);
+		if (root.labels?.includes(CANCELLED_LABEL)) {
+			throw new Error(
+				`Molecule ${moleculeId} is cancelled and cannot be resumed`,
+			);
+		}
+
+		const changed: string[] = [];
+		for (const bead of [root, ...(await this.beads.getDescendants(root.id))]) {
+			if (!bead.labels?.includes(PAUSED_LABEL)) continue;
+			await this.beads.update(bead.id, {
+				// @ts-expect-error - Extension for internal use
+				remove_labels: [PAUSED_LABEL],
+			});
+			if (bead.id !== root.id) changed.push(bead.id);
+		}
+
+		await this.beads.addComment(
+			root.id,
+			`Molecule resumed (${changed.length} beads released)`,
+		);
+		logger.info(`[MoleculeControl] Resumed molecule ${moleculeId}`, {
+			beadId: moleculeId,
+		});
+		return { moleculeId, beads: changed, tickets: 0 };
+	}
+
+	private async halt(
+		root: Bead,
+		label: string,
+		verb: string,
+	): Promise<ControlResult> {
+		const changed: string[] = [];
+		let tickets = 0;
+
+		// Completed steps keep their outputs; only unfinished work is halted
+		const steps = (await this.beads.getDescendants(root.id)).filter(
+			(b) => b.status !== "done",
+		);
+
+		for (const bead of [root, ...steps]) {
+			if (!bead.labels?.includes(label)) {
+				await this.beads.update(bead.id, { labels: [label] });
+			}
+			if (bead.id === root.id) continue;
+
+			tickets += this.queue.cancelBead(bead.id);
+			changed.push(bead.id);
+		}
+
+		await this.beads.addComment(
+			root.id,
+			`Molecule ${verb} (${changed.length} beads halted, ${tickets} tickets cancelled)`,
+		);
+		logger.info(`[MoleculeControl] Molecule ${root.id} ${verb}`, {
+			beadId: root.id,
+			beads: changed.length,
+			tickets,
+		});
+		return { moleculeId: root.id, beads: changed, tickets };
+	}
+
+	private async getRoot(moleculeId: string): Promise<Bead> {
+		const root = await this.beads.get(moleculeId);
+		if (root.type !== "epic") {
+			throw new Error(`${moleculeId} is not a molecule (type: ${root.type})`);
+		}
+		return root;
+	}
+}
+
+// Singleton
+let _control: MoleculeControl | null = null;
+export function getMoleculeControl(): MoleculeControl {
+	if (!_control) _control = new MoleculeControl();
+	return _control;
+}
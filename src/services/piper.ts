@@ -1,34 +1,48 @@
-import type { Bead } from "../core/beads";
-import { getBeads } from "../core/beads";
+import { getArtifactStore } from "../core/artifacts";
+import { type Bead, type BeadsClient, getBeads } from "../core/beads";
 import { logger } from "../core/logger";
 import { getQueue } from "../core/queue";
+import {
+	evaluateStepReference,
+	parseStepReference,
+	STEP_REFERENCE_PATTERN,
+	type StepReference,
+} from "../core/reference";
+import { FANOUT_LABEL, FANOUT_OF_PREFIX, getFanOutIndex } from "./fanout";
+import { getSubMoleculeId } from "./subformula";
+
+// Value of a reference that can't be resolved yet; the reference is kept
+const UNRESOLVED = Symbol("unresolved");
+
+/**
+ * True for the error of a reference to a step the molecule doesn't have.
+ */
+export function isUnknownStepError(error: unknown): boolean {
+	return error instanceof Error && error.name === "UnknownStepError";
+}
 
 export class DataPiper {
-	// No longer caching in constructor to avoid singleton leak in tests
-	// private beads = getBeads();
-	// private queue = getQueue();
+	// The singletons are not cached in the constructor to avoid leaks in tests
+	constructor(private client?: BeadsClient) {}
+
+	private get beads(): BeadsClient {
+		return this.client || getBeads();
+	}
 
 	/**
-	 * Attempts to pipe data into a Bead's context from its dependencies.
-	 * key logic:
-	 * 1. Check if bead has 'context' (we need to parse it from description if not stored separately in memory yet,
-	 *    but beads client handles this?)
-	 *    Actually, BeadsClient parse logic extracts context.
-	 * 2. If valid context found, scan values for {{steps.ID.output...}} patterns.
-	 * 3. Fetch outputs for referenced steps.
-	 * 4. Resolve values.
-	 * 5. Update bead context.
+	 * Attempts to pipe data into a Bead from its dependencies.
+	 * 1. Scan context values (recursively), the title and the description
+	 *    for {{steps.ID.output...}} references.
+	 * 2. Fetch outputs of the referenced steps (beads of the molecule labelled `step:ID`).
+	 * 3. Replace the references and update the bead.
+	 * Throws an UnknownStepError for references to steps the molecule doesn't have.
 	 */
 	async pipeData(beadId: string): Promise<boolean> {
 		try {
-			const beads = getBeads();
-			const bead = await beads.get(beadId);
-			if (!bead || !bead.context) return false;
+			const bead = await this.beads.get(beadId);
+			if (!bead) return false;
 
-			let hasChanges = false;
-			const newContext: Record<string, unknown> = {
-				...(bead.context as Record<string, unknown>),
-			};
+			const changes: Partial<Bead> = {};
 
 			// Helper to traverse object and resolve strings
 			const resolveObject = async (
@@ -51,16 +65,32 @@ export class DataPiper {
 				return changed;
 			};
 
-			hasChanges = await resolveObject(newContext);
+			if (bead.context) {
+				const newContext: Record<string, unknown> = structuredClone(
+					bead.context as Record<string, unknown>,
+				);
+				if (await resolveObject(newContext)) {
+					changes.context = newContext;
+				}
+			}
 
-			if (hasChanges) {
-				logger.info(`[Piper] Resolved data for bead ${beadId}`, { newContext });
-				await getBeads().update(beadId, { context: newContext });
+			// Titles and descriptions are text: references are always interpolated
+			for (const field of ["title", "description"] as const) {
+				const text = bead[field];
+				if (!text?.includes("{{steps.")) continue;
+				const resolved = await this.interpolate(text, bead);
+				if (resolved !== text) changes[field] = resolved;
+			}
+
+			if (Object.keys(changes).length > 0) {
+				logger.info(`[Piper] Resolved data for bead ${beadId}`, changes);
+				await this.beads.update(beadId, changes);
 				return true;
 			}
 
 			return false;
 		} catch (error) {
+			if (isUnknownStepError(error)) throw error;
 			logger.error(`[Piper] Failed to pipe data for ${beadId}`, error);
 			return false;
 		}
@@ -70,114 +100,222 @@ export class DataPiper {
 		template: string,
 		bead: Bead,
 	): Promise<unknown> {
-		// Regex for {{steps.ID.output.KEY}}
-		// Also support {{steps.ID.output}} (full object)
-
-		// Check for full replacement first (if the string is EXACTLY the template)
+		// A value that is EXACTLY one reference keeps the native type,
 		// allowing us to inject objects/arrays, not just strings.
-		const fullMatch = template.match(/^{{steps\.([^.]+)\.output(?:\.(.+))?}}$/);
-		if (fullMatch) {
-			const stepId = fullMatch[1];
-			const path = fullMatch[2];
-			if (stepId) {
-				return await this.fetchValue(bead, stepId, path);
-			}
+		const trimmed = template.trim();
+		if (trimmed.match(STEP_REFERENCE_PATTERN)?.[0] === trimmed) {
+			const reference = this.parse(trimmed, bead);
+			const value = reference
+				? await this.fetchValue(bead, reference)
+				: UNRESOLVED;
+			return value === UNRESOLVED ? template : value;
 		}
 
-		// Partial replacement (string interpolation)
-		// "Title: {{steps.foo.output.title}}"
-		return template.replace(
-			/{{steps\.([^.]+)\.output(?:\.(.+))?}}/g,
-			(_match, _stepId, _path) => {
-				// We can't support async inside replace easily without specific patterns,
-				// but since we are doing one pass, we might have to fetch first.
-				// Actually, simplest is to use a replacer that returns a placeholder?
-				// No, let's just resolve one by one.
-				// For now, let's limit support to FULL replacement or assume simple strings for partials.
-				// WARN: Synchronous replace with async fetch is hard.
-				// Let's iterate matches.
-				return _match; // Placeholder, see logic below
-			},
+		// "Summarise {{steps.research.output.title}} for {{steps.plan.output.audience}}"
+		return this.interpolate(template, bead);
+	}
+
+	/**
+	 * Replaces every reference in a string. Non-string values are JSON-serialised,
+	 * missing values become empty. References to unfinished steps are left as-is.
+	 */
+	private async interpolate(template: string, bead: Bead): Promise<string> {
+		const matches = [...template.matchAll(STEP_REFERENCE_PATTERN)];
+		const values = await Promise.all(
+			matches.map((m) => {
+				const reference = this.parse(m[0], bead);
+				return reference ? this.fetchValue(bead, reference) : UNRESOLVED;
+			}),
 		);
+
+		let index = 0;
+		return template.replace(STEP_REFERENCE_PATTERN, (match) => {
+			const value = values[index++];
+			if (value === UNRESOLVED) return match;
+			if (value === null || value === undefined) return "";
+			return typeof value === "string" ? value : JSON.stringify(value);
+		});
 	}
 
-	// Simplified: Only support FULL property replacement for V1.
-	// "key": "{{steps.foo.output.bar}}"
-	// Mixed interpolation "Hello {{...}}" is harder with async resolution and types.
+	private parse(source: string, bead: Bead): StepReference | null {
+		try {
+			return parseStepReference(source);
+		} catch (error) {
+			// Formula validation reports these; leave the reference as-is
+			logger.error(`[Piper] ${(error as Error).message}`, { beadId: bead.id });
+			return null;
+		}
+	}
 
 	private async fetchValue(
 		currentBead: Bead,
-		targetStepId: string,
-		outputKey?: string,
+		reference: StepReference,
 	): Promise<unknown> {
-		// 1. Find the target bead ID.
-		// The 'stepId' in the template usually refers to the Formula Step ID,
-		// NOT the Bead ID directly (since Bead IDs are GUIDs).
-		// However, we don't easily know the map from Formula Step ID -> Bead ID here
-		// unless we traverse the dependency graph or look at metadata labels.
-
-		// Strategy: look at dependencies.
-		// Use logic: "Which dependency was created from stepId?"
-		// Ideally, beads should have a label or property `formula_step:ID`
-
-		// FALLBACK: For V1, assume specific labeling or name matching?
-		// Better: WorkflowEngine creates beads. It should tag them?
-		// Let's assume for this implementation plan we need to find the dependency bead.
-
-		// Let's look at block dependencies (needs).
-		const blockers = currentBead.blockers || [];
-
-		// We need to resolve `stepId` (e.g. "generator") to a `beadId`.
-		// The Bead doesn't natively store "I am step 'generator'".
-		// FIX Needed: Update WorkflowEngine to add labels!
-		// But for now, we can try to search dependencies by title or description context?
-		// No, that's brittle.
-
-		// CRITICAL: We need a way to map 'stepId' to 'beadId'.
-		// Assumption: The WorkflowEngine adds a label `step:ID`.
-		// I will add this to WorkflowEngine in the next step.
-
-		// Find dependency with label `step:{targetStepId}`
-		const dependencyId = await this.findDependencyIdByStep(
-			blockers,
-			targetStepId,
-		);
+		// `stepId` is the formula step id, not a bead id.
+		// The WorkflowEngine labels every step bead `step:ID`
+		const dependencyId = await this.findStepBead(currentBead, reference.stepId);
 
+		if (dependencyId === null) return UNRESOLVED;
 		if (!dependencyId) {
-			logger.warn(
-				`[Piper] Could not find dependency for step '${targetStepId}' in bead ${currentBead.id}`,
-			);
-			return `{{steps.${targetStepId}.output...}}`; // Unresolved
+			const message = `Unknown step '${reference.stepId}' referenced by bead ${currentBead.id}`;
+			logger.error(`[Piper] ${message}`, {
+				beadId: currentBead.id,
+				step: reference.stepId,
+			});
+			const error = new Error(message);
+			error.name = "UnknownStepError";
+			throw error;
+		}
+
+		if (reference.source === "artifacts") {
+			const value = await this.readArtifact(dependencyId, reference);
+			return evaluateStepReference({ ...reference, path: [] }, value) ?? null;
+		}
+
+		// Selectors, filters and defaults (see core/reference)
+		const output = (await this.readOutput(dependencyId)) ?? undefined;
+		return evaluateStepReference(reference, output) ?? null;
+	}
+
+	/**
+	 * artifacts -> { name: path }, artifacts.NAME -> path, artifacts.NAME.content -> content
+	 */
+	private async readArtifact(
+		beadId: string,
+		reference: StepReference,
+	): Promise<unknown> {
+		const store = getArtifactStore();
+		const bead = await this.beads.get(beadId);
+		const artifacts = await store.list(bead);
+
+		const [name, field] = reference.path;
+		if (name?.kind !== "key") {
+			return Object.fromEntries(artifacts.map((a) => [a.name, a.path]));
 		}
+		const artifact = artifacts.find((a) => a.name === name.key);
+		if (!artifact) return undefined;
+		return field ? store.read(bead, artifact.name) : artifact.path;
+	}
 
-		const queue = getQueue();
-		const output = await queue.getOutput(dependencyId);
-		if (!output) return null;
+	/**
+	 * Outputs of upstream steps, keyed by step id: { [stepId]: { output } }.
+	 * Steps without a matching bead in the molecule are left out.
+	 */
+	async getStepOutputs(
+		bead: Bead,
+		stepIds: string[],
+	): Promise<Record<string, { output: unknown }>> {
+		const outputs: Record<string, { output: unknown }> = {};
+		for (const stepId of stepIds) {
+			const dependencyId = await this.findStepBead(bead, stepId);
+			if (dependencyId) {
+				outputs[stepId] = { output: await this.readOutput(dependencyId) };
+			}
+		}
+		return outputs;
+	}
 
-		if (!outputKey) return output;
+	/**
+	 * Output of a step bead. Fan-out templates (see FanOutService) yield the
+	 * outputs of their item beads as an array, in item order. Sub-formula steps
+	 * (see SubFormulaService) yield the outputs of the nested leaf steps by step id.
+	 */
+	private async readOutput(beadId: string): Promise<unknown> {
+		const beads = this.beads;
+		const bead = await beads.get(beadId);
+		const moleculeId = bead ? getSubMoleculeId(bead) : undefined;
+		if (moleculeId) {
+			return this.readMoleculeOutput(bead, moleculeId);
+		}
+		if (!bead?.labels?.includes(FANOUT_LABEL)) {
+			return getQueue().getOutput(beadId);
+		}
 
-		// Deep access
-		return outputKey
-			.split(".")
-			.reduce(
-				(o: Record<string, unknown> | null, k) =>
-					o ? (o[k] as Record<string, unknown> | null) : null,
-				output as Record<string, unknown> | null,
-			);
+		const items = await Promise.all(
+			(bead.blockers || []).map((id) => beads.get(id)),
+		);
+		return items
+			.filter((b) => b.labels?.includes(`${FANOUT_OF_PREFIX}${beadId}`))
+			.sort((a, b) => getFanOutIndex(a) - getFanOutIndex(b))
+			.map((b) => getQueue().getOutput(b.id) ?? null);
 	}
 
-	private async findDependencyIdByStep(
-		candidateIds: string[],
+	private async readMoleculeOutput(
+		placeholder: Bead,
+		moleculeId: string,
+	): Promise<Record<string, unknown>> {
+		const beads = this.beads;
+		const steps = (
+			await Promise.all((placeholder.blockers || []).map((id) => beads.get(id)))
+		).filter((b) => b.parent === moleculeId && !b.labels?.includes("recovery"));
+
+		// Leaves: steps no other nested step depends on
+		const upstream = new Set(steps.flatMap((b) => b.blockers || []));
+		const output: Record<string, unknown> = {};
+		for (const step of steps.filter((b) => !upstream.has(b.id))) {
+			const stepId = step.labels
+				?.find((l) => l.startsWith("step:"))
+				?.slice("step:".length);
+			if (!stepId) continue;
+
+			const value = (await this.readOutput(step.id)) ?? null;
+			// Iterations of a loop are collected into an array
+			if (stepId in output) {
+				const existing = output[stepId];
+				output[stepId] = Array.isArray(existing)
+					? [...existing, value]
+					: [existing, value];
+			} else {
+				output[stepId] = value;
+			}
+		}
+		return output;
+	}
+
+	/**
+	 * Bead of a step in the molecule of `bead`. Transitive ancestors are
+	 * searched first, nearest first; then the done beads under the same root epic.
+	 * Null while the step only matches beads that are not done yet.
+	 */
+	private async findStepBead(
+		bead: Bead,
 		stepId: string,
-	): Promise<string | undefined> {
-		const beads = getBeads();
-		for (const id of candidateIds) {
-			const bead = await beads.get(id);
-			if (bead.labels?.includes(`step:${stepId}`)) {
-				return id;
+	): Promise<string | null | undefined> {
+		const beads = this.beads;
+		const label = `step:${stepId}`;
+
+		const seen = new Set<string>();
+		let frontier = bead.blockers || [];
+		while (frontier.length > 0) {
+			const next: string[] = [];
+			for (const id of frontier) {
+				if (seen.has(id)) continue;
+				seen.add(id);
+				const ancestor = await beads.get(id);
+				// Steps of nested molecules are not visible from here
+				if (!ancestor || ancestor.parent !== bead.parent) continue;
+				if (ancestor.labels?.includes(label)) return id;
+				next.push(...(ancestor.blockers || []));
 			}
+			frontier = next;
 		}
-		return undefined;
+
+		if (!bead.parent) return undefined;
+		const siblings = (await beads.getAll()).filter(
+			(b) =>
+				b.parent === bead.parent &&
+				b.id !== bead.id &&
+				b.labels?.includes(label),
+		);
+		const done = siblings.find((b) => b.status === "done");
+		if (done || siblings.length === 0) return done?.id;
+
+		// Its output doesn't exist yet; interpolating it would leave a hole
+		logger.warn(
+			`[Piper] Step '${stepId}' referenced by bead ${bead.id} is not done yet`,
+			{ beadId: bead.id, step: stepId },
+		);
+		return null;
 	}
 }
 
@@ -0,0 +1,146 @@
+import { type Bead, type BeadsClient, getBeads } from "../core/beads";
+import {
+	BUDGET_EXCEEDED_LABEL,
+	type CostLedger,
+	getCostLedger,
+	getMoleculeId,
+} from "../core/costs";
+import { logger } from "../core/logger";
+import { getQueue, type WorkQueue } from "../core/queue";
+
+// Labels left behind by failed or incomplete agent runs
+export const FAILURE_LABELS = [
+	"failed",
+	"agent-error",
+	"agent-timeout",
+	"agent-incomplete",
+	"evaluator-error",
+	"evaluator-incomplete",
+	"dead-letter",
+	"budget-exceeded",
+];
+
+export interface RetryOptions {
+	instructions?: string; // Extra guidance for the next attempt (custom_instructions)
+}
+
+export interface RetryResult {
+	beadId: string;
+	clearedLabels: string[];
+	archivedTickets: number;
+}
+
+/**
+ * Resets failed beads to 'open' so the Conductor routes them again.
+ */
+export class RetryService {
+	private beads: BeadsClient;
+	private queue: WorkQueue;
+	private ledger?: CostLedger;
+
+	constructor(beads?: BeadsClient, queue?: WorkQueue, ledger?: CostLedger) {
+		this.beads = beads || getBeads();
+		this.queue = queue || getQueue();
+		this.ledger = ledger;
+	}
+
+	isFailed(bead: Bead): boolean {
+		if (bead.labels?.some((l) => l === "failed" || l === "agent-error")) {
+			return true;
+		}
+		return this.queue.getLatestTicket(bead.id)?.status === "failed";
+	}
+
+	async retry(
+		beadId: string,
+		options: RetryOptions = {},
+	): Promise<RetryResult> {
+		const bead = await this.beads.get(beadId);
+		if (bead.type === "epic") {
+			throw new Error(
+				`${beadId} is a molecule. Use --molecule ${beadId} --failed to retry its failed steps.`,
+			);
+		}
+
+		const active = this.queue.getActiveTicket(beadId);
+		if (active?.status === "processing") {
+			throw new Error(
+				`${beadId} is currently being processed by ${active.assignee_id}`,
+			);
+		}
+
+		const clearedLabels = (bead.labels || []).filter((l) =>
+			FAILURE_LABELS.includes(l),
+		);
+
+		const changes: Partial<Bead> = {
+			status: "open",
+			// @ts-expect-error - Extension for internal use
+			remove_labels: clearedLabels,
+		};
+
+		if (options.instructions) {
+			const previous = bead.context?.custom_instructions;
+			changes.context = {
+				...(bead.context || {}),
+				custom_instructions: previous
+					? `${previous}\n\n${options.instructions}`
+					: options.instructions,
+			};
+		}
+
+		await this.beads.update(beadId, changes);
+		const archivedTickets = this.queue.archiveBead(beadId);
+		await resetBudgets(bead, clearedLabels, this.beads, this.ledger);
+
+		const note = options.instructions
+			? `\nInstructions for next attempt: ${options.instructions}`
+			: "";
+		await this.beads.addComment(
+			beadId,
+			`Retry requested (cleared: ${clearedLabels.join(", ") || "none"}, archived tickets: ${archivedTickets})${note}`,
+		);
+
+		logger.info(`[Retry] Reset bead ${beadId} for a new attempt`, {
+			beadId,
+			clearedLabels,
+			archivedTickets,
+		});
+		return { beadId, clearedLabels, archivedTickets };
+	}
+
+	async retryFailedInMolecule(
+		moleculeId: string,
+		options: RetryOptions = {},
+	): Promise<RetryResult[]> {
+		const steps = await this.beads.getDescendants(moleculeId);
+		const results: RetryResult[] = [];
+		for (const bead of steps.filter((b) => this.isFailed(b))) {
+			results.push(await this.retry(bead.id, options));
+		}
+		return results;
+	}
+}
+
+/**
+ * Gives a bead a fresh budget for its next attempt, and its molecule too when
+ * a budget stopped the last one. Otherwise the first paid call would fail again.
+ */
+export async function resetBudgets(
+	bead: Bead,
+	clearedLabels: string[],
+	beads: Pick<BeadsClient, "get">,
+	ledger: CostLedger = getCostLedger(),
+): Promise<void> {
+	ledger.resetBudget(bead.id);
+	if (clearedLabels.includes(BUDGET_EXCEEDED_LABEL) && bead.parent) {
+		ledger.resetBudget(await getMoleculeId(bead, beads));
+	}
+}
+
+// Singleton
+let _retry: RetryService | null = null;
+export function getRetryService(): RetryService {
+	if (!_retry) _retry = new RetryService();
+	return _retry;
+}
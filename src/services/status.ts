@@ -0,0 +1,197 @@
+import {
+	type Bead,
+	type BeadStatus,
+	type BeadsClient,
+	getBeads,
+} from "../core/beads";
+import { getQueue, type WorkQueue } from "../core/queue";
+
+export interface StepStatus {
+	id: string;
+	title: string;
+	status: BeadStatus;
+	stepId?: string;
+	labels: string[];
+	depth: number;
+	ticket: {
+		id: string;
+		role: string;
+		status: string;
+		active: boolean;
+		retry_count: number;
+	} | null;
+	lastOutput?: string;
+}
+
+export interface MoleculeStatus {
+	id: string;
+	title: string;
+	status: BeadStatus;
+	formula?: string;
+	progress: { done: number; total: number };
+	steps: StepStatus[];
+}
+
+const SUMMARY_LENGTH = 80;
+
+/**
+ * Joins the Beads graph (domain status) with WorkQueue ticket data
+ * to give a single view of every molecule and its steps.
+ */
+export class StatusService {
+	private beads: BeadsClient;
+	private queue: WorkQueue;
+
+	constructor(beads?: BeadsClient, queue?: WorkQueue) {
+		this.beads = beads || getBeads();
+		this.queue = queue || getQueue();
+	}
+
+	async getMolecules(moleculeId?: string): Promise<MoleculeStatus[]> {
+		const all = await this.beads.getAll();
+
+		const childrenOf = new Map<string, Bead[]>();
+		for (const bead of all) {
+			if (!bead.parent) continue;
+			const siblings = childrenOf.get(bead.parent) || [];
+			siblings.push(bead);
+			childrenOf.set(bead.parent, siblings);
+		}
+
+		// Sub-formula epics are listed among the steps of their parent molecule
+		const epics = new Set(
+			all.filter((b) => b.type === "epic").map((b) => b.id),
+		);
+		const roots = all.filter((b) =>
+			moleculeId
+				? b.id === moleculeId && epics.has(b.id)
+				: epics.has(b.id) && !(b.parent && epics.has(b.parent)),
+		);
+		if (moleculeId && roots.length === 0) {
+			throw new Error(`Molecule not found: ${moleculeId}`);
+		}
+
+		return roots.map((root) => {
+			const steps: StepStatus[] = [];
+			const visit = (parentId: string, depth: number) => {
+				for (const child of childrenOf.get(parentId) || []) {
+					steps.push(this.describeStep(child, depth));
+					visit(child.id, depth + 1);
+				}
+			};
+			visit(root.id, 0);
+
+			const formula = steps
+				.flatMap((s) => s.labels)
+				.find((l) => l.startsWith("formula:"))
+				?.split(":")[1];
+
+			return {
+				id: root.id,
+				title: root.title,
+				status: root.status,
+				formula,
+				progress: {
+					done: steps.filter((s) => s.status === "done").length,
+					total: steps.length,
+				},
+				steps,
+			};
+		});
+	}
+
+	private describeStep(bead: Bead, depth: number): StepStatus {
+		const active = this.queue.getActiveTicket(bead.id);
+		const ticket = active || this.queue.getLatestTicket(bead.id);
+
+		return {
+			id: bead.id,
+			title: bead.title,
+			status: bead.status,
+			stepId: bead.labels?.find((l) => l.startsWith("step:"))?.split(":")[1],
+			labels: bead.labels || [],
+			depth,
+			ticket: ticket
+				? {
+						id: ticket.id,
+						role: ticket.target_role,
+						status: ticket.status,
+						active: !!active,
+						retry_count: ticket.retry_count,
+					}
+				: null,
+			lastOutput: summarizeOutput(this.queue.getOutput(bead.id)),
+		};
+	}
+}
+
+function summarizeOutput(output: unknown): string | undefined {
+	if (output === null || output === undefined) return undefined;
+
+	let text: string;
+	if (typeof output === "string") {
+		text = output;
+	} else if (
+		typeof output === "object" &&
+		typeof (output as Record<string, unknown>).summary === "string"
+	) {
+		text = (output as Record<string, string>).summary as string;
+	} else {
+		text = JSON.stringify(output);
+	}
+
+	text = text.replace(/\s+/g, " ").trim();
+	return text.length > SUMMARY_LENGTH
+		? `${text.substring(0, SUMMARY_LENGTH - 3)}...`
+		: text;
+}
+
+const STATUS_ICONS: Record<BeadStatus, string> = {
+	open: "○",
+	in_progress: "▶",
+	verify: "?",
+	done: "✓",
+};
+
+/**
+ * Render molecules as a plain-text report for the CLI.
+ */
+export function formatStatus(molecules: MoleculeStatus[]): string {
+	if (molecules.length === 0) return "No molecules found.";
+
+	const lines: string[] = [];
+	for (const molecule of molecules) {
+		const formula = molecule.formula ? ` [${molecule.formula}]` : "";
+		lines.push(
+			`${STATUS_ICONS[molecule.status]} ${molecule.title} (${molecule.id})${formula} — ${molecule.progress.done}/${molecule.progress.total} done`,
+		);
+
+		for (const step of molecule.steps) {
+			const indent = "  ".repeat(step.depth + 1);
+			const stepId = step.stepId ? ` <${step.stepId}>` : "";
+			let ticket = "no ticket";
+			if (step.ticket) {
+				ticket = `${step.ticket.role}:${step.ticket.status}`;
+				if (step.ticket.retry_count > 0) {
+					ticket += ` retries=${step.ticket.retry_count}`;
+				}
+			}
+			lines.push(
+				`${indent}${STATUS_ICONS[step.status]} ${step.title} (${step.id})${stepId} [${step.status}] ${ticket}`,
+			);
+			if (step.lastOutput) {
+				lines.push(`${indent}    ↳ ${step.lastOutput}`);
+			}
+		}
+		lines.push("");
+	}
+
+	return lines.join("\n").trimEnd();
+}
+
+// Singleton
+let _status: StatusService | null = null;
+export function getStatusService(): StatusService {
+	if (!_status) _status = new StatusService();
+	return _status;
+}
@@ -0,0 +1,128 @@
+import { type Bead, type BeadsClient, getBeads } from "../core/beads";
+import { getStepDefinition } from "../core/formula";
+import { logger } from "../core/logger";
+import type { VariableValues } from "../core/variables";
+import {
+	type CookedMolecule,
+	getWorkflowEngine,
+	type WorkflowEngine,
+} from "./workflow-engine";
+
+export const SUBFORMULA_LABEL = "subformula";
+export const SUBFORMULA_EXPANDED_LABEL = "subformula:expanded";
+const SUBMOLECULE_PREFIX = "submolecule:";
+
+/**
+ * Root epic of the nested molecule a `uses` step was cooked into.
+ */
+export function getSubMoleculeId(bead: Bead): string | undefined {
+	return bead.labels
+		?.find((l) => l.startsWith(SUBMOLECULE_PREFIX))
+		?.slice(SUBMOLECULE_PREFIX.length);
+}
+
+/**
+ * Cooks `uses` steps into nested molecules.
+ *
+ * The WorkflowEngine creates a placeholder bead (label 'subformula') whose
+ * context holds the `with` variables. Once it is ready and its data is piped,
+ * the referenced formula is cooked under the parent epic and the placeholder
+ * is made to wait for every step of it. When those are done the placeholder
+ * closes; the Piper exposes the outputs of the nested leaf steps as its output.
+ */
+export class SubFormulaService {
+	private beads: BeadsClient;
+	private engine?: WorkflowEngine;
+
+	constructor(beads?: BeadsClient, engine?: WorkflowEngine) {
+		this.beads = beads || getBeads();
+		this.engine = engine;
+	}
+
+	async cook(placeholder: Bead): Promise<void> {
+		const uses = getStepDefinition(placeholder)?.uses;
+		if (!uses) {
+			await this.fail(
+				placeholder,
+				"No sub-formula definition found for this step",
+			);
+			return;
+		}
+
+		let cooked: CookedMolecule;
+		try {
+			cooked = await (this.engine || getWorkflowEngine()).cookFormula(
+				uses,
+				(placeholder.context || {}) as VariableValues,
+				placeholder.parent,
+			);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			await this.fail(
+				placeholder,
+				`Could not instantiate formula '${uses}': ${message}`,
+			);
+			return;
+		}
+
+		for (const id of cooked.beadIds) {
+			await this.beads.addDependency(placeholder.id, id);
+		}
+		await this.beads.update(placeholder.id, {
+			labels: [
+				SUBFORMULA_EXPANDED_LABEL,
+				`${SUBMOLECULE_PREFIX}${cooked.moleculeId}`,
+			],
+		});
+
+		logger.info(
+			`[SubFormula] Cooked '${uses}' for ${placeholder.id} as ${cooked.moleculeId}`,
+			{ beadId: placeholder.id, moleculeId: cooked.moleculeId },
+		);
+
+		// Every step was skipped: nothing to wait for
+		if (cooked.beadIds.length === 0) {
+			await this.complete(await this.beads.get(placeholder.id));
+		}
+	}
+
+	async complete(placeholder: Bead): Promise<void> {
+		const moleculeId = getSubMoleculeId(placeholder);
+		const steps = (
+			await Promise.all(
+				(placeholder.blockers || []).map((id) => this.beads.get(id)),
+			)
+		).filter((b) => b.parent === moleculeId);
+
+		if (steps.some((b) => b.status !== "done")) return;
+
+		const failed = steps.filter((b) => b.labels?.includes("failed"));
+		if (failed.length > 0) {
+			// Propagate so on_failure handlers of the step run
+			await this.beads.update(placeholder.id, {
+				status: "done",
+				labels: ["failed"],
+				acceptance_test: `Sub-formula: ${failed.length} of ${steps.length} steps failed in ${moleculeId} (${failed.map((b) => b.id).join(", ")})`,
+			});
+		} else {
+			await this.beads.update(placeholder.id, {
+				status: "done",
+				acceptance_test: `Sub-formula: molecule ${moleculeId} completed`,
+			});
+		}
+		logger.info(`[SubFormula] Closed ${placeholder.id}`, {
+			beadId: placeholder.id,
+			moleculeId,
+			failed: failed.length,
+		});
+	}
+
+	private async fail(placeholder: Bead, reason: string): Promise<void> {
+		logger.error(`[SubFormula] ${reason} (${placeholder.id})`);
+		await this.beads.update(placeholder.id, {
+			status: "done",
+			labels: ["failed"],
+			acceptance_test: `Failed: ${reason}`,
+		});
+	}
+}
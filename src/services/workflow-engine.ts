@@ -1,5 +1,54 @@
 import { getBeads } from "../core/beads";
-import { type FormulaRegistry, getFormulaRegistry } from "../core/formula";
+import { evaluateCondition } from "../core/expression";
+import {
+	type FormulaRegistry,
+	formatFormulaIssue,
+	getFormulaRegistry,
+	isDynamicFanOut,
+	stepsReferencedBy,
+	validateFormula,
+} from "../core/formula";
+import {
+	formatVariable,
+	resolveVariables,
+	type VariableValues,
+} from "../core/variables";
+import { HUMAN_GATE_LABEL } from "./approval";
+import { FANOUT_LABEL } from "./fanout";
+import { SUBFORMULA_LABEL } from "./subformula";
+
+export interface PlannedStep {
+	key: string; // Step id, suffixed with the iteration index for `for` loops
+	stepId: string;
+	title: string;
+	description: string;
+	context: Record<string, unknown>;
+	iteration: Record<string, unknown>; // Loop variable for `for` steps
+	condition?: string; // `if` that reads step outputs, evaluated later by the Conductor
+	fanOut?: string; // `for.items` that reads step outputs, expanded later by the Conductor
+	uses?: string; // Formula cooked as a nested molecule by the Conductor; context holds its variables
+	approval?: boolean; // Human approval gate (see ApprovalService)
+}
+
+export interface PlannedEdge {
+	blocked: string; // Plan key of the dependent step
+	blocker: string; // Plan key of the step it waits for
+	type: "needs" | "on_failure";
+}
+
+export interface FormulaPlan {
+	formula: string;
+	title: string; // Root epic title
+	variables: VariableValues; // Coerced inputs merged with defaults
+	steps: PlannedStep[];
+	skipped: { stepId: string; reason: string }[];
+	edges: PlannedEdge[];
+}
+
+export interface CookedMolecule {
+	moleculeId: string; // Root epic
+	beadIds: string[]; // Step beads, in plan order
+}
 
 export class WorkflowEngine {
 	private registry: FormulaRegistry;
@@ -13,113 +62,137 @@ export class WorkflowEngine {
 	}
 
 	/**
-	 * "Cooks" a Formula into a Molecule (a graph of Beads).
-	 * 1. Creates Root Convoy/Epic.
-	 * 2. Iterates steps, resolving variables.
-	 * 3. Creates Beads for steps.
-	 * 4. Wires dependencies.
+	 * Expands a Formula without touching Beads: validates it, resolves
+	 * variables, evaluates `if`/`for` and computes the dependency edges
+	 * `instantiateFormula` would wire.
 	 */
-	async instantiateFormula(
+	planFormula(
 		formulaName: string,
-		variables: Record<string, string>,
-		parentContextId?: string,
-	): Promise<string> {
+		inputVariables: VariableValues,
+	): FormulaPlan {
 		const formula = this.registry.get(formulaName);
 		if (!formula) {
 			throw new Error(`Formula not found: ${formulaName}`);
 		}
 
-		// Validate variables
-		if (formula.vars) {
-			for (const [key, config] of Object.entries(formula.vars)) {
-				if (config.required && !variables[key] && !config.default) {
-					throw new Error(`Missing required variable: ${key}`);
-				}
-				if (!variables[key] && config.default) {
-					variables[key] = config.default;
-				}
-			}
+		const issues = [
+			...validateFormula(formula, this.registry.getPath(formulaName)),
+			...this.registry.validateComposition(formulaName),
+		];
+		if (issues.length > 0) {
+			throw new Error(
+				`Formula '${formulaName}' is invalid:\n${issues.map((i) => `  - ${formatFormulaIssue(i)}`).join("\n")}`,
+			);
+		}
+
+		// Validate and coerce variables
+		const { values: variables, errors } = resolveVariables(
+			formula,
+			inputVariables,
+		);
+		if (errors.length > 0) {
+			throw new Error(
+				`Invalid variables for formula '${formulaName}':\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+			);
 		}
 
 		const resolveTemplate = (
 			tpl: string,
-			extraVars: Record<string, string> = {},
+			extraVars: Record<string, unknown> = {},
 		) => {
 			let result = tpl;
 			const context = { ...variables, ...extraVars };
 			for (const [key, val] of Object.entries(context)) {
-				result = result.replace(new RegExp(`{{${key}}}`, "g"), val);
+				result = result.replace(new RegExp(`{{${key}}}`, "g"), () =>
+					formatVariable(val),
+				);
 			}
 			return result;
 		};
 
-		const evaluateCondition = (
-			condition: string,
-			extraVars: Record<string, string> = {},
-		): boolean => {
-			// Simple string comparison for now: "val == val" or "val != val"
-			const resolved = resolveTemplate(condition, extraVars).trim();
-
-			if (resolved.includes("==")) {
-				const [left, right] = resolved
-					.split("==")
-					.map((s) => s.trim().replace(/^['"]|['"]$/g, ""));
-				return left === right;
-			}
-			if (resolved.includes("!=")) {
-				const [left, right] = resolved
-					.split("!=")
-					.map((s) => s.trim().replace(/^['"]|['"]$/g, ""));
-				return left !== right;
-			}
-			// Boolean checks if strictly "true" or "false"
-			if (resolved === "true") return true;
-			if (resolved === "false") return false;
-
-			// Default to true if not strictly parsed? Or false?
-			// For safety, warn and return false if complex.
-			console.warn(
-				`[WorkflowEngine] Could not parse condition: ${condition} (resolved: ${resolved})`,
+		// `with` values: a lone {{var}} keeps its native value, other strings are interpolated
+		const resolveInputs = (
+			inputs: Record<string, unknown>,
+			extraVars: Record<string, unknown>,
+		) => {
+			const context = { ...variables, ...extraVars };
+			return Object.fromEntries(
+				Object.entries(inputs).map(([key, value]) => {
+					if (typeof value !== "string") return [key, value];
+					const name = value.match(/^{{\s*([^}\s]+)\s*}}$/)?.[1];
+					if (name && name in context) return [key, context[name]];
+					return [key, resolveTemplate(value, extraVars)];
+				}),
 			);
-			return false;
 		};
 
-		const beads = getBeads();
-
-		console.log(`[WorkflowEngine] Cooking formula '${formulaName}'...`);
-
-		const rootTitle = `[Molecule] ${resolveTemplate(formula.description)}`;
-		const rootBead = await beads.create(rootTitle, {
-			type: "epic",
-			parent: parentContextId,
-		});
-		console.log(
-			`[WorkflowEngine] Created Root Epic: ${rootBead.id}${parentContextId ? ` in Convoy ${parentContextId}` : ""}`,
-		);
+		const plan: FormulaPlan = {
+			formula: formulaName,
+			title: `[Molecule] ${resolveTemplate(formula.description)}`,
+			variables,
+			steps: [],
+			skipped: [],
+			edges: [],
+		};
 
-		// Track StepID -> Array of BeadIDs (for One-to-Many loops)
-		const stepIdToBeadIds = new Map<string, string[]>();
+		// Track StepID -> Array of plan keys (for One-to-Many loops)
+		const stepIdToKeys = new Map<string, string[]>();
 
 		for (const step of formula.steps) {
-			// 1. Check Condition
-			if (step.if) {
-				if (!evaluateCondition(step.if)) {
-					console.log(
-						`[WorkflowEngine] Skipping Step '${step.id}' (condition '${step.if}' false)`,
+			// 1. Check Condition (deferred if it reads upstream step outputs)
+			const deferred =
+				step.if && stepsReferencedBy(step.if).length > 0 ? step.if : undefined;
+			if (step.if && !deferred) {
+				let passed: boolean;
+				try {
+					// Variables are reachable as {{name}} or {{vars.name}}
+					passed = evaluateCondition(step.if, {
+						...variables,
+						vars: variables,
+					});
+				} catch (e) {
+					throw new Error(
+						`Step '${step.id}': could not evaluate condition: ${(e as Error).message}`,
 					);
+				}
+				if (!passed) {
+					plan.skipped.push({
+						stepId: step.id,
+						reason: `condition '${step.if}' false`,
+					});
 					continue;
 				}
 			}
 
-			// 2. Determine Iteration (Loop vs Single)
-			let iterations: Array<Record<string, string>> = [{}]; // Default single iteration
+			// 2. Dynamic fan-out: a single template bead, expanded once its input exists
+			if (step.for && isDynamicFanOut(step.for.items)) {
+				plan.steps.push({
+					key: step.id,
+					stepId: step.id,
+					title: resolveTemplate(step.title),
+					description: resolveTemplate(step.description),
+					context: { ...(step.context || {}) },
+					iteration: {},
+					condition: deferred,
+					fanOut: step.for.items,
+				});
+				stepIdToKeys.set(step.id, [step.id]);
+				continue;
+			}
+
+			// 3. Determine Iteration (Loop vs Single)
+			let iterations: Array<Record<string, unknown>> = [{}]; // Default single iteration
 			if (step.for) {
+				// Native list variables are iterated as-is
+				const listVar = step.for.items.match(/^{{\s*([^}\s]+)\s*}}$/)?.[1];
+				const native = listVar ? variables[listVar] : undefined;
 				const listString = resolveTemplate(step.for.items);
 				try {
-					// Try parsing as JSON array
-					let items: string[] = [];
-					// Handle comma-separated list or JSON
-					if (listString.startsWith("[")) {
+					let items: unknown[] = [];
+					if (Array.isArray(native)) {
+						items = native;
+					} else if (listString.startsWith("[")) {
+						// Handle JSON or comma-separated list
 						items = JSON.parse(listString);
 					} else {
 						items = listString
@@ -134,95 +207,170 @@ export class WorkflowEngine {
 						}));
 					}
 				} catch (e) {
-					console.error(
-						`[WorkflowEngine] Failed to parse loop items for step ${step.id}: ${e}`,
-					);
+					plan.skipped.push({
+						stepId: step.id,
+						reason: `failed to parse loop items: ${e}`,
+					});
 					continue;
 				}
 			}
 
-			const createdIds: string[] = [];
-
-			for (const iterContext of iterations) {
-				const title = resolveTemplate(step.title, iterContext);
-				const description = resolveTemplate(step.description, iterContext);
-
-				const finalContext = { ...(step.context || {}), ...iterContext };
-
-				const bead = await beads.create(title, {
-					parent: rootBead.id,
-					description: description,
-					context: finalContext, // Merged context
-				});
-
-				// tag with step ID for piping AND 'molecule:cooking' to prevent premature routing
-				await beads.update(bead.id, {
-					labels: [
-						`step:${step.id}`,
-						`formula:${formulaName}`,
-						"molecule:cooking",
-					],
+			const keys: string[] = [];
+			iterations.forEach((iterContext, index) => {
+				const key = step.for ? `${step.id}[${index}]` : step.id;
+				plan.steps.push({
+					key,
+					stepId: step.id,
+					title: resolveTemplate(step.title, iterContext),
+					description: resolveTemplate(step.description, iterContext),
+					context: step.uses
+						? resolveInputs(step.with || {}, iterContext)
+						: { ...(step.context || {}), ...iterContext }, // Merged context
+					iteration: iterContext,
+					condition: deferred,
+					uses: step.uses,
+					approval: step.type === "approval" || undefined,
 				});
+				keys.push(key);
+			});
 
-				createdIds.push(bead.id);
-				console.log(
-					`[WorkflowEngine] Created Step '${step.id}' -> ${bead.id} (context: ${JSON.stringify(iterContext)})`,
-				);
-			}
-
-			if (createdIds.length > 0) {
-				stepIdToBeadIds.set(step.id, createdIds);
+			if (keys.length > 0) {
+				stepIdToKeys.set(step.id, keys);
+			} else {
+				plan.skipped.push({ stepId: step.id, reason: "loop has no items" });
 			}
 		}
 
-		// 3. Wire Dependencies
+		// 4. Dependencies
 		for (const step of formula.steps) {
-			const childIds = stepIdToBeadIds.get(step.id);
-			if (!childIds) continue;
-
-			// Wire 'needs' (Blocking)
-			if (step.needs && step.needs.length > 0) {
-				for (const parentStepId of step.needs) {
-					const parentIds = stepIdToBeadIds.get(parentStepId);
-					if (parentIds) {
-						for (const childId of childIds) {
-							for (const parentId of parentIds) {
-								await beads.addDependency(childId, parentId);
-								console.log(
-									`[WorkflowEngine] Wired ${childId} (needs) -> ${parentId}`,
-								);
-							}
-						}
+			const childKeys = stepIdToKeys.get(step.id);
+			if (!childKeys) continue;
+
+			// 'needs' (Blocking)
+			for (const parentStepId of step.needs || []) {
+				for (const blocked of childKeys) {
+					for (const blocker of stepIdToKeys.get(parentStepId) || []) {
+						plan.edges.push({ blocked, blocker, type: "needs" });
 					}
 				}
 			}
 
-			// Wire 'on_failure' (Recovery)
+			// 'on_failure' (Recovery)
 			// Semantic: "Step A on_failure Step B" => B depends on A, but runs ONLY if A fails.
 			if (step.on_failure) {
-				const recoveryIds = stepIdToBeadIds.get(step.on_failure);
-				if (recoveryIds) {
-					for (const childId of childIds) {
-						for (const recId of recoveryIds) {
-							// Recovery step (recId) blocked by Main step (childId)
-							await beads.addDependency(recId, childId);
-							// Flag recovery bead and link it to its source for traceability
-							await beads.update(recId, {
-								labels: ["recovery", `recovers:${childId}`],
-							});
-							console.log(
-								`[WorkflowEngine] Wired ${recId} (recovery) -> ${childId}`,
-							);
-						}
+				for (const blocker of childKeys) {
+					for (const blocked of stepIdToKeys.get(step.on_failure) || []) {
+						plan.edges.push({ blocked, blocker, type: "on_failure" });
 					}
 				}
 			}
 		}
 
-		// 4. Release Beads (Remove 'molecule:cooking')
+		return plan;
+	}
+
+	/**
+	 * "Cooks" a Formula into a Molecule (a graph of Beads).
+	 * 1. Plans the Formula (see planFormula).
+	 * 2. Creates Root Convoy/Epic.
+	 * 3. Creates Beads for planned steps.
+	 * 4. Wires dependencies.
+	 */
+	async instantiateFormula(
+		formulaName: string,
+		variables: VariableValues,
+		parentContextId?: string,
+	): Promise<string> {
+		const { moleculeId } = await this.cookFormula(
+			formulaName,
+			variables,
+			parentContextId,
+		);
+		return moleculeId;
+	}
+
+	/**
+	 * Same as instantiateFormula, but also returns the created step beads.
+	 */
+	async cookFormula(
+		formulaName: string,
+		variables: VariableValues,
+		parentContextId?: string,
+	): Promise<CookedMolecule> {
+		const plan = this.planFormula(formulaName, variables);
+		const beads = getBeads();
+
+		console.log(`[WorkflowEngine] Cooking formula '${formulaName}'...`);
+
+		const rootBead = await beads.create(plan.title, {
+			type: "epic",
+			parent: parentContextId,
+			// Variables are kept for conditions evaluated at runtime
+			context: { formula: formulaName, vars: plan.variables },
+		});
+		console.log(
+			`[WorkflowEngine] Created Root Epic: ${rootBead.id}${parentContextId ? ` in Convoy ${parentContextId}` : ""}`,
+		);
+
+		for (const skipped of plan.skipped) {
+			console.log(
+				`[WorkflowEngine] Skipping Step '${skipped.stepId}' (${skipped.reason})`,
+			);
+		}
+
+		// Track plan key -> BeadID
+		const keyToBeadId = new Map<string, string>();
+
+		for (const step of plan.steps) {
+			const bead = await beads.create(step.title, {
+				parent: rootBead.id,
+				description: step.description,
+				context: step.context,
+			});
+
+			// tag with step ID for piping AND 'molecule:cooking' to prevent premature routing
+			await beads.update(bead.id, {
+				labels: [
+					`step:${step.stepId}`,
+					`formula:${formulaName}`,
+					"molecule:cooking",
+					...(step.condition ? ["conditional"] : []),
+					...(step.fanOut ? [FANOUT_LABEL] : []),
+					...(step.uses ? [SUBFORMULA_LABEL] : []),
+					...(step.approval ? [HUMAN_GATE_LABEL] : []),
+				],
+			});
+
+			keyToBeadId.set(step.key, bead.id);
+			console.log(
+				`[WorkflowEngine] Created Step '${step.stepId}' -> ${bead.id} (context: ${JSON.stringify(step.iteration)})`,
+			);
+		}
+
+		// Wire Dependencies
+		for (const edge of plan.edges) {
+			const blockedId = keyToBeadId.get(edge.blocked) as string;
+			const blockerId = keyToBeadId.get(edge.blocker) as string;
+			await beads.addDependency(blockedId, blockerId);
+
+			if (edge.type === "on_failure") {
+				// Flag recovery bead and link it to its source for traceability
+				await beads.update(blockedId, {
+					labels: ["recovery", `recovers:${blockerId}`],
+				});
+				console.log(
+					`[WorkflowEngine] Wired ${blockedId} (recovery) -> ${blockerId}`,
+				);
+			} else {
+				console.log(
+					`[WorkflowEngine] Wired ${blockedId} (needs) -> ${blockerId}`,
+				);
+			}
+		}
+
+		// Release Beads (Remove 'molecule:cooking')
 		console.log(`[WorkflowEngine] Wiring complete. Releasing beads...`);
-		const allCreatedIds = Array.from(stepIdToBeadIds.values()).flat();
-		for (const id of allCreatedIds) {
+		for (const id of keyToBeadId.values()) {
 			await beads.update(id, {
 				// @ts-expect-error
 				remove_labels: ["molecule:cooking"],
@@ -232,7 +380,7 @@ export class WorkflowEngine {
 		console.log(
 			`[WorkflowEngine] Cooking complete. Molecule ID: ${rootBead.id}`,
 		);
-		return rootBead.id;
+		return { moleculeId: rootBead.id, beadIds: [...keyToBeadId.values()] };
 	}
 }
 
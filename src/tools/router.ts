@@ -1,7 +1,9 @@
 import { tool } from "ai";
 import { z } from "zod";
+import { getFormulaRegistry } from "../core/formula";
 import { logger } from "../core/logger";
 import { getQueue } from "../core/queue";
+import { describeVariables, resolveVariables } from "../core/variables";
 import { getWorkflowEngine } from "../services/workflow-engine";
 import type { AgentContext } from "../core/agent";
 
@@ -105,10 +107,23 @@ export const createInstantiateFormulaTool = (_context: AgentContext) => {
                     `[Router] Instantiating formula ${formulaName} for bead ${beadId}`,
                 );
 
+            // Check variables up front so the router gets the expected types back
+            const formula = getFormulaRegistry().get(formulaName);
+            if (formula) {
+                const { errors } = resolveVariables(formula, variables);
+                if (errors.length > 0) {
+                    return {
+                        success: false,
+                        error: `Invalid variables: ${errors.join("; ")}`,
+                        expectedVariables: describeVariables(formula),
+                    };
+                }
+            }
+
             try {
                 const moleculeId = await getWorkflowEngine().instantiateFormula(
                     formulaName,
-                    variables as Record<string, string>,
+                    variables,
                     parentConvoyId,
                 );
                 return { success: true, moleculeId, status: "created" };
@@ -24,11 +24,14 @@ export const runCommandTool = {
 				.describe("Alternative: command as string or array of arguments"),
 		})
 		.loose(),
-	handler: async (args: {
-		command?: string | string[];
-		cmd?: string | string[];
-		[key: string]: unknown;
-	}) => {
+	handler: async (
+		args: {
+			command?: string | string[];
+			cmd?: string | string[];
+			[key: string]: unknown;
+		},
+		options: { abortSignal?: AbortSignal } = {},
+	) => {
 		// Normalize: accept both 'command' and 'cmd', convert arrays to strings
 		let command: string | undefined;
 		if (args.command) {
@@ -49,7 +52,10 @@ export const runCommandTool = {
 		logger.debug(`[Shell] Running command: ${command}`);
 
 		try {
-			const { stdout, stderr } = await execAsync(command);
+			// Aborting kills the child process (ticket cancelled, timed out or shutting down)
+			const { stdout, stderr } = await execAsync(command, {
+				signal: options.abortSignal,
+			});
 
 			// Post-Git Sync
 			if (command.trim().startsWith("git ")) {
@@ -69,6 +75,8 @@ export const runCommandTool = {
 
 			return { success: true, stdout: stdout.trim(), stderr: stderr.trim() };
 		} catch (error: unknown) {
+			// Let the agent loop stop instead of reporting a tool failure
+			options.abortSignal?.throwIfAborted();
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
 			// Try to extract stdout/stderr from error object if available (exec error)
@@ -1,23 +1,53 @@
 import { tool } from "ai";
 import { z } from "zod";
 import type { AgentContext } from "../core/agent";
+import { getArtifactStore, resolveProjectFile } from "../core/artifacts";
 import { getBeads } from "../core/beads";
 import { logger } from "../core/logger";
 import { getQueue } from "../core/queue";
 
+/**
+ * Validates submitted output against the step's output_schema. Agents often
+ * send JSON as a string, so a string that does not match is parsed and retried.
+ */
+const parseStepOutput = (schema: z.ZodTypeAny, output: unknown): unknown => {
+    let result = schema.safeParse(output);
+    if (!result.success && typeof output === "string") {
+        try {
+            result = schema.safeParse(JSON.parse(output));
+        } catch {
+            // Not JSON: report the original issues
+        }
+    }
+    if (!result.success) {
+        const issues = result.error.issues
+            .map((i) => `${["output", ...i.path.map(String)].join(".")}: ${i.message}`)
+            .join("; ");
+        throw new Error(
+            `Output does not match the step's output_schema. Issues: [${issues}]. Fix the output and call submit_work again.`,
+        );
+    }
+    return result.data;
+};
+
 export const createSubmitWorkTool = (
     _context: AgentContext,
     outputSchema?: z.ZodTypeAny,
+    schemaVersion?: string,
 ) => {
     const parameters = z.object({
         summary: z
             .string()
             .optional()
             .describe("Summary of work done (required if not in output)"),
-        output: z
-            .union([z.string(), outputSchema || z.record(z.string(), z.unknown())])
-            .optional()
-            .describe("Output data"),
+        output: outputSchema
+            ? z
+                .union([z.string(), outputSchema])
+                .describe("Output data, matching the step's output schema")
+            : z
+                .union([z.string(), z.record(z.string(), z.unknown())])
+                .optional()
+                .describe("Output data"),
         acceptance_test_result: z.optional(
             z.string().describe("Result of running the acceptance test"),
         ),
@@ -33,6 +63,11 @@ export const createSubmitWorkTool = (
             const beadId = toolContext.beadId;
             if (!beadId) throw new Error("No beadId found in context");
 
+            // Strict: nothing reaches the queue (or verify) unless it matches
+            if (outputSchema) {
+                output = parseStepOutput(outputSchema, output) as typeof output;
+            }
+
             // Auto-Extraction: Recover summary if nested in output (common agent error)
             if (!summary && typeof output === "object" && output !== null) {
                 const outObj = output as Record<string, unknown>;
@@ -107,10 +142,15 @@ export const createSubmitWorkTool = (
                 );
             }
 
-            getQueue().complete(ticket.id, output || { summary });
+            if (schemaVersion) {
+                getQueue().complete(ticket.id, output, schemaVersion);
+            } else {
+                getQueue().complete(ticket.id, output || { summary });
+            }
             logger.info(`[Worker] Submitted work for ${beadId}`, {
                 beadId,
                 hasOutput: !!output,
+                schemaVersion,
             });
 
             await getBeads().update(beadId, {
@@ -237,3 +277,64 @@ export const createDelegateTaskTool = (_context: AgentContext) => {
         },
     });
 };
+
+export const createAttachArtifactTool = (_context: AgentContext) => {
+    const parameters = z.object({
+        name: z
+            .string()
+            .describe(
+                "Artifact name (letters, digits, '-' and '_'). Downstream steps use {{steps.ID.artifacts.NAME}}",
+            ),
+        path: z
+            .string()
+            .optional()
+            .describe("Project file to attach (copied into the artifact store)"),
+        content: z
+            .string()
+            .optional()
+            .describe("Text content to attach instead of a file"),
+        extension: z
+            .string()
+            .optional()
+            .describe("File extension for content, e.g. 'md' (default 'txt')"),
+        description: z.string().optional().describe("What the artifact contains"),
+    });
+
+    return tool({
+        description:
+            "Attach a file (report, patch, dataset) to the current task so later steps and the reviewer can use it",
+        inputSchema: parameters,
+        // biome-ignore lint/suspicious/noExplicitAny: context provided by AI SDK
+        execute: async (args: z.infer<typeof parameters>, toolContext: any) => {
+            const beadId = toolContext.beadId;
+            if (!beadId) throw new Error("No beadId found in context");
+            if ((args.path === undefined) === (args.content === undefined)) {
+                throw new Error("Provide either 'path' or 'content'");
+            }
+
+            let source: { path: string } | { content: string; extension?: string };
+            if (args.path) {
+                source = { path: await resolveProjectFile(process.cwd(), args.path) };
+            } else {
+                source = { content: args.content ?? "", extension: args.extension };
+            }
+
+            const bead = await getBeads().get(beadId);
+            const artifact = await getArtifactStore().attach(bead, args.name, source, {
+                ticketId: getQueue().getActiveTicket(beadId)?.id,
+                description: args.description,
+            });
+            logger.info(`[Worker] Attached artifact '${artifact.name}' to ${beadId}`, {
+                beadId,
+                path: artifact.path,
+            });
+
+            return {
+                success: true,
+                name: artifact.name,
+                path: artifact.path,
+                size: artifact.size,
+            };
+        },
+    });
+};
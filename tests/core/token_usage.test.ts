@@ -12,6 +12,7 @@ mock.module('../../src/services/mcp', () => ({
 
 import { CoreAgent } from '../../src/core/agent';
 import { setBeadsInstance, type BeadsClient } from '../../src/core/beads';
+import { CostLedger, setCostLedgerInstance } from '../../src/core/costs';
 import { clearGlobalSingleton } from '../../src/core/registry';
 import { loadConfig } from '../../src/config';
 import type { LanguageModel, ModelMessage } from 'ai';
@@ -51,12 +52,14 @@ describe('CoreAgent Token Usage Tracking', () => {
 
     afterAll(() => {
         clearGlobalSingleton('beads_client');
+        clearGlobalSingleton('cost_ledger');
         mock.restore();
     });
 
     beforeEach(async () => {
         await loadConfig();
         clearGlobalSingleton('beads_client');
+        setCostLedgerInstance(new CostLedger(':memory:'));
 
         mockBeads = {
             addComment: mock(async () => "comment-id"),
@@ -83,6 +86,7 @@ describe('CoreAgent Token Usage Tracking', () => {
         expect(comment).toContain('**Input Tokens**: 10');
         expect(comment).toContain('**Output Tokens**: 20');
         expect(comment).toContain('**Total Tokens**: 30');
+        expect(comment).toContain('**Cost**: $0.0000');
     });
 
     it('should NOT report if beadId is missing', async () => {
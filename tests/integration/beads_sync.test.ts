@@ -26,7 +26,8 @@ describe('Beads Sync Recovery', () => {
             public callCount = 0;
             public syncCalled = false;
 
-            protected override async execute(command: string, _cwd: string): Promise<{ stdout: string; stderr: string }> {
+            protected override async execute(args: string[], _cwd: string): Promise<{ stdout: string; stderr: string }> {
+                const command = args.join(' ');
                 this.callCount++;
 
                 if (command.includes('sync')) {
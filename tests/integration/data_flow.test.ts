@@ -55,18 +55,13 @@ const DB_PATH = resolve(TEST_DIR, 'queue.sqlite');
 class MockBeadsClient extends BeadsClient {
     private beads: Map<string, Bead> = new Map();
 
-    protected override async runCommand(args: string): Promise<string> {
+    protected override async runCommand(argv: string[]): Promise<string> {
+        const args = argv.join(' ');
         console.log(`[Mock] runCommand: ${args}`);
         if (args.startsWith('create')) {
-            const titleMatch = args.match(/create "([^"]+)"/);
-            const title = titleMatch ? titleMatch[1] : 'Untitled';
-
-            let description = '';
-            // Use non-capturing group for potential escaped content logic if needed
-            const descMatch = args.match(/--description "((?:[^"\\]|\\.)*)"/);
-            if (descMatch && descMatch[1]) {
-                description = descMatch[1].replace(/\\"/g, '"');
-            }
+            const title = argv[1] || 'Untitled';
+
+            const description = argv.includes('--description') ? argv[argv.indexOf('--description') + 1] || '' : '';
 
             const id = `bead-${Math.random().toString(36).substr(2, 9)}`;
             // Store as Raw format essentially, or at least compatible
@@ -86,7 +81,7 @@ class MockBeadsClient extends BeadsClient {
         }
 
         if (args.startsWith('show')) {
-            const id = args.split(' ')[1];
+            const id = argv[1];
             if (!id) throw new Error('Missing ID');
             const bead = this.beads.get(id);
             if (!bead) throw new Error('Not found');
@@ -94,7 +89,7 @@ class MockBeadsClient extends BeadsClient {
         }
 
         if (args.startsWith('update')) {
-            const id = args.split(' ')[1];
+            const id = argv[1];
             if (!id) throw new Error('Missing ID');
             console.log(`[Mock] Updating bead ${id} with args: ${args}`);
             let bead: any = this.beads.get(id);
@@ -39,18 +39,16 @@ const FORMULAS_DIR = resolve(TEST_DIR, '.citadel/formulas');
 class MockBeadsClient extends BeadsClient {
     public store: Map<string, any> = new Map();
 
-    protected override async runCommand(args: string): Promise<string> {
+    protected override async runCommand(argv: string[]): Promise<string> {
+        const args = argv.join(' ');
+        const option = (name: string) => (argv.includes(name) ? argv[argv.indexOf(name) + 1] : undefined);
+
         // Create
         if (args.startsWith('create')) {
-            const titleMatch = args.match(/create "([^"]+)"/);
-            const title = titleMatch ? titleMatch[1] : 'Untitled';
+            const title = argv[1] || 'Untitled';
 
             // Extract description with context
-            let description = '';
-            const descMatch = args.match(/--description "((?:[^"\\]|\\.)*)"/);
-            if (descMatch && descMatch[1]) {
-                description = descMatch[1].replace(/\\"/g, '"');
-            }
+            const description = option('--description') || '';
 
             const id = `bead-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -65,31 +63,25 @@ class MockBeadsClient extends BeadsClient {
 
         // Update
         if (args.startsWith('update')) {
-            const idPart = args.split(' ')[1];
+            const idPart = argv[1];
             if (!idPart) throw new Error('Missing ID');
             const bead = this.store.get(idPart);
             if (!bead) throw new Error('Not found');
 
             // Handle labels
             if (args.includes('--add-label')) {
-                const parts = args.split(' ');
-                for (let i = 0; i < parts.length; i++) {
-                    if (parts[i] === '--add-label' && parts[i + 1]) {
-                        const rawLabel = parts[i + 1];
-                        if (rawLabel) {
-                            const label = rawLabel.replace(/^"|"$/g, '');
-                            if (!bead.labels.includes(label)) {
-                                bead.labels.push(label);
-                            }
-                        }
+                for (let i = 0; i < argv.length; i++) {
+                    const label = argv[i + 1];
+                    if (argv[i] === '--add-label' && label && !bead.labels.includes(label)) {
+                        bead.labels.push(label);
                     }
                 }
             }
 
             // Handle context/description update
-            const descMatch = args.match(/--description "((?:[^"\\]|\\.)*)"/);
-            if (descMatch && descMatch[1]) {
-                bead.description = descMatch[1].replace(/\\"/g, '"');
+            const description = option('--description');
+            if (description) {
+                bead.description = description;
                 // update context property for in-memory mock consistency
                 // (Real client reparses from desc)
                 const match = bead.description.match(/^---\n([\s\S]*?)\n---\n/);
@@ -109,9 +101,8 @@ class MockBeadsClient extends BeadsClient {
 
         // Show/Get
         if (args.startsWith('show')) {
-            const parts = args.split(' ');
-            if (parts.length > 1) {
-                const id = parts[1];
+            if (argv.length > 1) {
+                const id = argv[1];
                 if (id) {
                     return JSON.stringify(this.store.get(id));
                 }
@@ -120,10 +111,9 @@ class MockBeadsClient extends BeadsClient {
 
         // Dep Add
         if (args.startsWith('dep add')) {
-            const parts = args.split(' ');
-            if (parts.length >= 4) {
-                const child = parts[2];
-                const parent = parts[3];
+            if (argv.length >= 4) {
+                const child = argv[2];
+                const parent = argv[3];
                 if (child && parent) {
                     const c = this.store.get(child);
                     if (c) {
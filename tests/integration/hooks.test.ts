@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { Hook } from '../../src/core/hooks';
-import { WorkQueue } from '../../src/core/queue';
+import { Hook, isTimeoutError } from '../../src/core/hooks';
+import { getBackoffDelay, WorkQueue } from '../../src/core/queue';
 import { rm } from 'node:fs/promises';
 import { join } from 'node:path';
 
@@ -53,4 +53,107 @@ describe('Hook Mechanism Integration', () => {
         const ticket = db.query('SELECT * FROM tickets WHERE bead_id = ?').get('bead-hook-1');
         expect(ticket.status).toBe('completed');
     });
+
+    it('should abort and retry handlers that exceed their timeout', async () => {
+        queue.enqueue('bead-slow', 0, 'worker');
+
+        let aborted = false;
+        hook = new Hook('agent-slow', 'worker', async (_ticket, signal) => {
+            signal.addEventListener('abort', () => { aborted = true; });
+            await new Promise(() => {}); // Never settles
+        }, queue, 3, {
+            policy: () => ({ timeoutMs: 50, backoff: { strategy: 'fixed', baseMs: 60000, maxMs: 60000 } }),
+        });
+
+        const before = Date.now();
+        await hook['cycle']();
+
+        expect(aborted).toBe(true);
+        // biome-ignore lint/suspicious/noExplicitAny: Access private property
+        const ticket = (queue as any).db.query('SELECT * FROM tickets WHERE bead_id = ?').get('bead-slow');
+        expect(ticket.status).toBe('queued');
+        expect(ticket.retry_count).toBe(1);
+        expect(ticket.next_attempt_at).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('should report tickets that exhausted their retries', async () => {
+        queue.enqueue('bead-timeout', 0, 'worker');
+
+        const failures: unknown[] = [];
+        hook = new Hook('agent-slow', 'worker', async () => {
+            await new Promise((r) => setTimeout(r, 1000));
+        }, queue, 3, {
+            policy: () => ({ maxRetries: 0, timeoutMs: 20 }),
+            onFailed: (_ticket, error) => { failures.push(error); },
+        });
+
+        await hook['cycle']();
+
+        expect(queue.getLatestTicket('bead-timeout')?.status).toBe('failed');
+        expect(failures).toHaveLength(1);
+        expect(isTimeoutError(failures[0])).toBe(true);
+    });
+
+    it('should interrupt the in-flight ticket on stop and hand it back without a retry', async () => {
+        queue.enqueue('bead-shutdown', 0, 'worker');
+
+        let aborted: unknown = null;
+        hook = new Hook('agent-stopping', 'worker', async (_ticket, signal) => {
+            signal.addEventListener('abort', () => { aborted = signal.reason; });
+            await new Promise(() => {}); // Ignores the signal and never settles
+        }, queue);
+
+        const cycle = hook['cycle']();
+        await new Promise((r) => setTimeout(r, 20));
+        hook.stop();
+        await cycle;
+
+        expect((aborted as Error).name).toBe('ShutdownError');
+        const ticket = queue.getActiveTicket('bead-shutdown');
+        expect(ticket).toMatchObject({ status: 'queued', retry_count: 0, assignee_id: null });
+        expect(queue.getAttempts('bead-shutdown')).toMatchObject([{ outcome: 'cancelled', error: 'Hook agent-stopping stopped' }]);
+    });
+
+    it('should stop waiting for a cancelled ticket', async () => {
+        queue.enqueue('bead-cancel', 0, 'worker');
+
+        hook = new Hook('agent-cancel', 'worker', async (ticket, signal) => {
+            queue.cancelBead(ticket.bead_id);
+            hook['abortController']?.abort(new Error('Ticket cancelled'));
+            expect(signal.aborted).toBe(true);
+            await new Promise(() => {});
+        }, queue);
+
+        await hook['cycle']();
+
+        expect(queue.getLatestTicket('bead-cancel')?.status).toBe('cancelled');
+        expect(queue.getAttempts('bead-cancel')).toMatchObject([{ outcome: 'cancelled' }]);
+    });
+
+    it('should fail permanent errors without retrying', async () => {
+        queue.enqueue('bead-budget', 0, 'worker');
+
+        const failures: unknown[] = [];
+        hook = new Hook('agent-budget', 'worker', async () => {
+            throw new Error('Bead bead-budget spent $2.0000, over its budget of $1.00');
+        }, queue, 3, {
+            isPermanent: (error) => (error as Error).message.includes('budget'),
+            onFailed: (_ticket, error) => { failures.push(error); },
+        });
+
+        await hook['cycle']();
+
+        expect(queue.getLatestTicket('bead-budget')).toMatchObject({
+            status: 'failed',
+            retry_count: 0,
+            failure_reason: 'Bead bead-budget spent $2.0000, over its budget of $1.00',
+        });
+        expect(failures).toHaveLength(1);
+    });
+
+    it('should compute fixed and exponential backoff', () => {
+        const exponential = { strategy: 'exponential' as const, baseMs: 1000, maxMs: 5000 };
+        expect([1, 2, 3].map((n) => getBackoffDelay(exponential, n))).toEqual([2000, 4000, 5000]);
+        expect(getBackoffDelay({ strategy: 'fixed', baseMs: 1500, maxMs: 5000 }, 4)).toBe(1500);
+    });
 });
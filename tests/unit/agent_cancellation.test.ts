@@ -0,0 +1,55 @@
+import { describe, it, expect, mock, beforeEach, afterAll } from 'bun:test';
+import { CoreAgent } from '../../src/core/agent';
+import { LanguageModel } from 'ai';
+import { loadConfig, resetConfig } from '../../src/config';
+import { runCommandTool } from '../../src/tools/shell';
+
+const mockGenerateText = mock();
+
+class ShellAgent extends CoreAgent {
+    constructor() {
+        super('worker', {} as LanguageModel);
+        this.registerTool(runCommandTool.name, runCommandTool.description, runCommandTool.schema, runCommandTool.handler);
+    }
+
+    protected async executeGenerateText(messages: any[], signal?: AbortSignal) {
+        return mockGenerateText({ messages, signal });
+    }
+}
+
+describe('Agent cancellation', () => {
+    beforeEach(async () => {
+        await loadConfig();
+        mockGenerateText.mockReset();
+    });
+
+    afterAll(() => {
+        resetConfig();
+    });
+
+    it('should kill a running command and stop the run when aborted', async () => {
+        mockGenerateText.mockResolvedValue({
+            text: '',
+            toolCalls: [{ toolCallId: 'call-1', toolName: 'run_command', input: { command: 'sleep 10' } }],
+        });
+
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(new Error('Ticket cancelled')), 100);
+
+        const started = Date.now();
+        await expect(new ShellAgent().run('Run the slow tests', {}, { signal: controller.signal })).rejects.toThrow('Ticket cancelled');
+
+        // `sleep 10` was killed rather than awaited
+        expect(Date.now() - started).toBeLessThan(5000);
+        expect(mockGenerateText).toHaveBeenCalledTimes(1);
+        expect(mockGenerateText.mock.calls[0]?.[0].signal).toBe(controller.signal);
+    });
+
+    it('should not start when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort(new Error('Hook stopped'));
+
+        await expect(new ShellAgent().run('Anything', {}, { signal: controller.signal })).rejects.toThrow('Hook stopped');
+        expect(mockGenerateText).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import { mkdir, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { ArtifactStore, resolveProjectFile, setArtifactStoreInstance } from '../../src/core/artifacts';
+import type { Bead } from '../../src/core/beads';
+import { parseStepReference } from '../../src/core/reference';
+import { clearGlobalSingleton } from '../../src/core/registry';
+import { DataPiper } from '../../src/services/piper';
+
+const TEST_DIR = join(process.cwd(), '.test_artifacts');
+
+describe('ArtifactStore', () => {
+    let store: ArtifactStore;
+    const report = { id: 'report-1', parent: 'mol-1' };
+
+    beforeEach(async () => {
+        await rm(TEST_DIR, { recursive: true, force: true });
+        await mkdir(TEST_DIR, { recursive: true });
+        store = new ArtifactStore(join(TEST_DIR, 'artifacts'));
+    });
+
+    afterEach(async () => {
+        await rm(TEST_DIR, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+        clearGlobalSingleton('artifact_store');
+    });
+
+    it('should store files and content under the molecule and bead', async () => {
+        const source = join(TEST_DIR, 'patch.diff');
+        await writeFile(source, '--- a\n+++ b\n');
+
+        const patch = await store.attach(report, 'patch', { path: source }, { ticketId: 't-1' });
+        await store.attach(report, 'summary', { content: '# Summary', extension: 'md' }, { description: 'Findings' });
+
+        expect(patch.path).toBe(join(TEST_DIR, 'artifacts', 'mol-1', 'report-1', 'patch.diff'));
+        expect((await store.list(report)).map((a) => [a.name, a.file, a.size, a.ticket_id, a.description])).toEqual([
+            ['patch', 'patch.diff', 12, 't-1', undefined],
+            ['summary', 'summary.md', 9, undefined, 'Findings'],
+        ]);
+        expect(await store.read(report, 'summary')).toBe('# Summary');
+        expect(await store.list({ id: 'other' })).toEqual([]);
+    });
+
+    it('should replace artifacts attached under the same name', async () => {
+        const first = await store.attach(report, 'data', { content: 'a,b' });
+        const second = await store.attach(report, 'data', { content: '[]', extension: '.json' });
+
+        expect(existsSync(first.path)).toBe(false);
+        expect((await store.list(report)).map((a) => a.file)).toEqual(['data.json']);
+        expect(await readFile(second.path, 'utf-8')).toBe('[]');
+    });
+
+    it('should reject invalid names and export files', async () => {
+        expect(store.attach(report, '../escape', { content: 'x' })).rejects.toThrow("Invalid artifact name '../escape'");
+
+        await store.attach(report, 'notes', { content: 'Remember' });
+        const paths = await store.export(report, join(TEST_DIR, 'out'));
+        expect(paths).toEqual([join(TEST_DIR, 'out', 'notes.txt')]);
+        expect(await readFile(join(TEST_DIR, 'out', 'notes.txt'), 'utf-8')).toBe('Remember');
+    });
+
+    it('should only resolve files inside the project, following symlinks', async () => {
+        const project = join(TEST_DIR, 'project');
+        await mkdir(join(project, '..foo'), { recursive: true });
+        await writeFile(join(project, '..foo', 'bar.txt'), 'ok');
+        await writeFile(join(TEST_DIR, 'id_rsa'), 'secret');
+        await symlink(join(TEST_DIR, 'id_rsa'), join(project, 'key.txt'));
+        await symlink(TEST_DIR, join(project, 'outside'));
+
+        expect(await resolveProjectFile(project, '..foo/bar.txt')).toBe(join(project, '..foo', 'bar.txt'));
+        await expect(resolveProjectFile(project, 'key.txt')).rejects.toThrow('Cannot attach key.txt: only project files can be attached');
+        await expect(resolveProjectFile(project, 'outside/id_rsa')).rejects.toThrow('only project files can be attached');
+        await expect(resolveProjectFile(project, '../id_rsa')).rejects.toThrow('only project files can be attached');
+        await expect(resolveProjectFile(project, join(TEST_DIR, 'id_rsa'))).rejects.toThrow('only project files can be attached');
+        await expect(resolveProjectFile(project, 'missing.txt')).rejects.toThrow('Cannot attach missing.txt: file not found');
+    });
+
+    it('should pipe artifact paths and content into downstream steps', async () => {
+        setArtifactStoreInstance(store);
+        await store.attach(report, 'summary', { content: 'All good' });
+
+        const beads = new Map<string, Bead>([
+            ['report-1', { id: 'report-1', parent: 'mol-1', title: 'Report', status: 'done', priority: 2, created_at: '', updated_at: '', labels: ['step:report'] }],
+            ['publish', {
+                id: 'publish', parent: 'mol-1', title: 'Publish', status: 'open', priority: 2, created_at: '', updated_at: '',
+                labels: ['step:publish'], blockers: ['report-1'],
+                context: {
+                    file: '{{steps.report.artifacts.summary}}',
+                    text: 'Summary: {{steps.report.artifacts.summary.content | upper}}',
+                    all: '{{steps.report.artifacts}}',
+                },
+            }],
+        ]);
+        const client = {
+            get: mock(async (id: string) => beads.get(id)),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => beads.set(id, { ...beads.get(id), ...changes } as Bead)),
+        };
+
+        // biome-ignore lint/suspicious/noExplicitAny: mock
+        expect(await new DataPiper(client as any).pipeData('publish')).toBe(true);
+
+        const path = join(TEST_DIR, 'artifacts', 'mol-1', 'report-1', 'summary.txt');
+        expect(beads.get('publish')?.context).toEqual({ file: path, text: 'Summary: ALL GOOD', all: { summary: path } });
+    });
+
+    it('should reject malformed artifact references', () => {
+        expect(() => parseStepReference('{{steps.report.artifacts.summary.size}}')).toThrow('Expected steps.ID.artifacts.NAME');
+        expect(() => parseStepReference('{{steps.report.artifacts[0]}}')).toThrow('Expected steps.ID.artifacts.NAME');
+    });
+});
@@ -4,12 +4,12 @@ import { BeadsClient } from '../../src/core/beads';
 class TestBeadsClient extends BeadsClient {
     public executeMock = mock();
 
-    protected async execute(command: string, cwd: string): Promise<{ stdout: string; stderr: string }> {
-        return this.executeMock(command, cwd);
+    protected async execute(args: string[], cwd: string): Promise<{ stdout: string; stderr: string }> {
+        return this.executeMock(args, cwd);
     }
 
     // Public wrapper to access protected runCommand for testing
-    public async testRunCommand(args: string): Promise<string> {
+    public async testRunCommand(args: string[]): Promise<string> {
         return this.runCommand(args);
     }
 }
@@ -20,16 +20,16 @@ describe('BeadsClient No-DB Mode', () => {
 
         client.executeMock.mockResolvedValue({ stdout: '{}', stderr: '' });
 
-        await client.testRunCommand('list --json');
+        await client.testRunCommand(['list', '--json']);
 
-        // Check if the command string contains --no-db
+        // Check if the arguments contain --no-db
         expect(client.executeMock).toHaveBeenCalled();
         const callArgs = client.executeMock.mock.calls[0];
-        const command = callArgs[0] as string;
+        const command = callArgs[0] as string[];
 
         expect(command).toContain('--no-db');
         expect(command).toContain('--sandbox'); // Should also have sandbox
-        expect(command).toContain('list --json');
+        expect(command.slice(-2)).toEqual(['list', '--json']);
     });
 
     it('should inject --no-db flag into init', async () => {
@@ -39,9 +39,24 @@ describe('BeadsClient No-DB Mode', () => {
         await client.init();
 
         const callArgs = client.executeMock.mock.calls[0];
-        const command = callArgs[0] as string;
+        const command = callArgs[0] as string[];
 
         expect(command).toContain('init');
         expect(command).toContain('--no-db');
     });
+
+    it('should pass piped text as single arguments, without a shell', async () => {
+        const client = new TestBeadsClient('.beads', 'bd');
+        client.executeMock.mockResolvedValue({
+            stdout: '{"id": "bd-1", "title": "Old", "status": "open", "priority": 2, "created_at": "2023-01-01", "updated_at": "2023-01-01"}',
+            stderr: '',
+        });
+
+        const title = 'Report for `rm -rf ~` $(whoami) "quoted" \\ done';
+        await client.update('bd-1', { title, description: 'Body with $HOME and `id`' });
+
+        const command = client.executeMock.mock.calls.at(-1)?.[0] as string[];
+        expect(command[command.indexOf('--title') + 1]).toBe(title);
+        expect(command[command.indexOf('--description') + 1]).toBe('Body with $HOME and `id`');
+    });
 });
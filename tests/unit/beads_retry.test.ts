@@ -5,12 +5,12 @@ import { BeadsClient } from '../../src/core/beads';
 class TestBeadsClient extends BeadsClient {
     public executeMock = mock();
 
-    protected async execute(command: string, cwd: string): Promise<{ stdout: string; stderr: string }> {
-        return this.executeMock(command, cwd);
+    protected async execute(args: string[], cwd: string): Promise<{ stdout: string; stderr: string }> {
+        return this.executeMock(args, cwd);
     }
 
     // Public wrapper to access protected runCommand for testing
-    public async testRunCommand(args: string): Promise<string> {
+    public async testRunCommand(args: string[]): Promise<string> {
         return this.runCommand(args);
     }
 }
@@ -29,7 +29,7 @@ describe('BeadsClient Retry Logic', () => {
             return { stdout: '{"id": "bd-1", "title": "Success", "status": "open", "created_at": "2023-01-01", "updated_at": "2023-01-01"}', stderr: '' };
         });
 
-        const result = await client.testRunCommand('show bd-1');
+        const result = await client.testRunCommand(['show', 'bd-1']);
 
         // Should have called execute twice
         expect(client.executeMock).toHaveBeenCalledTimes(2);
@@ -46,7 +46,7 @@ describe('BeadsClient Retry Logic', () => {
         });
 
         // Should throw immediately
-        await expect(client.testRunCommand('show bd-1')).rejects.toThrow('Some other random error');
+        await expect(client.testRunCommand(['show', 'bd-1'])).rejects.toThrow('Some other random error');
 
         // Should have called execute once
         expect(client.executeMock).toHaveBeenCalledTimes(1);
@@ -62,7 +62,7 @@ describe('BeadsClient Retry Logic', () => {
             throw new Error('fatal error: runtime: split stack overflow');
         });
 
-        await expect(client.testRunCommand('show bd-1')).rejects.toThrow('split stack overflow');
+        await expect(client.testRunCommand(['show', 'bd-1'])).rejects.toThrow('split stack overflow');
 
         // Depending on implementation, might call 2 or 3 times. 
         // We just want to ensure it stopped and threw eventually.
@@ -0,0 +1,142 @@
+import { describe, it, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Cassette, isCassetteMismatchError, recordingModel, replayingModel, withCassette } from '../../src/core/cassette';
+import { clearGlobalSingleton } from '../../src/core/registry';
+
+const TEST_DIR = join(process.cwd(), '.test_cassettes');
+const CASSETTE = join(TEST_DIR, 'weather.json');
+
+const usage = (input: number, output: number) => ({
+    inputTokens: { total: input, noCache: input, cacheRead: 0, cacheWrite: 0 },
+    outputTokens: { total: output, text: output, reasoning: 0 },
+});
+
+// Provider model that asks for a tool first, then answers
+function liveModel() {
+    const calls: unknown[] = [];
+    const model = {
+        specificationVersion: 'v3' as const,
+        provider: 'openai.chat',
+        modelId: 'gpt-test',
+        supportedUrls: {},
+        doGenerate: async (options: unknown) => {
+            calls.push(options);
+            return calls.length === 1
+                ? {
+                    content: [{ type: 'tool-call' as const, toolCallId: 'call-1', toolName: 'lookup', input: '{"city":"Paris"}' }],
+                    finishReason: { unified: 'tool-calls' as const, raw: 'tool_calls' },
+                    usage: usage(12, 4),
+                    warnings: [],
+                }
+                : {
+                    content: [{ type: 'text' as const, text: 'Sunny in Paris' }],
+                    finishReason: { unified: 'stop' as const, raw: 'stop' },
+                    usage: usage(30, 5),
+                    warnings: [],
+                };
+        },
+        doStream: async () => {
+            throw new Error('Not used');
+        },
+    };
+    return { model, calls };
+}
+
+// Provider-level call options, as generateText builds them
+const request = (text: string) => ({
+    prompt: [{ role: 'user' as const, content: [{ type: 'text' as const, text }] }],
+    tools: [{
+        type: 'function' as const,
+        name: 'lookup',
+        description: 'Look up the weather',
+        inputSchema: { type: 'object' as const, properties: { city: { type: 'string' as const } } },
+    }],
+    abortSignal: new AbortController().signal,
+});
+
+describe('Cassettes', () => {
+    beforeEach(async () => {
+        await rm(TEST_DIR, { recursive: true, force: true });
+    });
+
+    afterEach(async () => {
+        await rm(TEST_DIR, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+        clearGlobalSingleton(`cassette:record:${CASSETTE}`);
+        clearGlobalSingleton(`cassette:replay:${CASSETTE}`);
+    });
+
+    it('should record calls and replay them offline', async () => {
+        const live = liveModel();
+        const recorded = recordingModel('openai', live.model, new Cassette(CASSETTE, 'record'));
+        const first = await recorded.doGenerate(request('Weather in Paris?'));
+        const second = await recorded.doGenerate(request('Summarize the forecast'));
+
+        expect(JSON.parse(readFileSync(CASSETTE, 'utf-8')).interactions).toHaveLength(2);
+
+        const cassette = new Cassette(CASSETTE, 'replay');
+        const replayed = replayingModel('openai', 'gpt-test', cassette);
+        const replayedFirst = await replayed.doGenerate(request('Weather in Paris?'));
+        const replayedSecond = await replayed.doGenerate(request('Summarize the forecast'));
+
+        expect(live.calls).toHaveLength(2);
+        expect(replayedFirst.content).toEqual([{ type: 'tool-call', toolCallId: 'call-1', toolName: 'lookup', input: '{"city":"Paris"}' }]);
+        expect(replayedFirst).toEqual(first);
+        expect(replayedSecond).toEqual(second);
+        expect(cassette.remaining()).toBe(0);
+    });
+
+    it('should fail loudly when a replay diverges', async () => {
+        const live = liveModel();
+        const recorded = recordingModel('openai', live.model, new Cassette(CASSETTE, 'record'));
+        await recorded.doGenerate(request('Weather in Paris?'));
+
+        const replayed = replayingModel('openai', 'gpt-test', new Cassette(CASSETTE, 'replay'));
+        const diverged = await replayed.doGenerate(request('Weather in Rome?')).catch((e) => e);
+        expect(isCassetteMismatchError(diverged)).toBe(true);
+        expect(diverged.message).toContain('diverged on call #1 (openai/gpt-test): request differs at prompt[0].content[0].text');
+
+        await replayed.doGenerate(request('Weather in Paris?'));
+        const exhausted = await replayed.doGenerate(request('Weather in Paris?')).catch((e) => e);
+        expect(exhausted.message).toContain('has no recorded response for call #3 (openai/gpt-test)');
+
+        expect(() => new Cassette(join(TEST_DIR, 'missing.json'), 'replay')).toThrow('Cassette not found');
+    });
+
+    it('should redact secrets before saving and match on the redacted form', async () => {
+        const live = liveModel();
+        const secrets = ['hunter2-db-password'];
+        const recorded = recordingModel('openai', live.model, new Cassette(CASSETTE, 'record', secrets));
+        await recorded.doGenerate(request('Connect with hunter2-db-password and sk-proj-abcdefghijklmnopqrstuvwx'));
+
+        const saved = readFileSync(CASSETTE, 'utf-8');
+        expect(saved).not.toContain('hunter2-db-password');
+        expect(saved).not.toContain('sk-proj-');
+        expect(saved).toContain('Connect with [REDACTED] and [REDACTED]');
+
+        const replayed = replayingModel('openai', 'gpt-test', new Cassette(CASSETTE, 'replay', secrets));
+        const result = await replayed.doGenerate(request('Connect with hunter2-db-password and sk-proj-abcdefghijklmnopqrstuvwx'));
+        expect(result.finishReason.unified).toBe('tool-calls');
+    });
+
+    it('should pick the model from the cassette config', async () => {
+        const live = liveModel();
+        const create = mock(() => live.model);
+
+        expect(withCassette(undefined, 'openai', 'gpt-test', create)).toBe(live.model);
+        const recorded = withCassette({ mode: 'record', path: CASSETTE }, 'openai', 'gpt-test', create);
+        await recorded.doGenerate(request('Hi'));
+        expect(create).toHaveBeenCalledTimes(2);
+
+        create.mockClear();
+        const replayed = withCassette({ mode: 'replay', path: CASSETTE }, 'openai', 'gpt-test', create);
+        const result = await replayed.doGenerate(request('Hi'));
+        expect(result.finishReason.unified).toBe('tool-calls');
+        expect(create).not.toHaveBeenCalled();
+        expect(live.calls).toHaveLength(1);
+    });
+});
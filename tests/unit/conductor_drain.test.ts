@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { resetConfig, setConfig } from '../../src/config';
+import { ConfigSchema } from '../../src/config/schema';
+import type { BeadsClient } from '../../src/core/beads';
+import { Hook, type TicketHandler } from '../../src/core/hooks';
+import { WorkerPool } from '../../src/core/pool';
+import { WorkQueue } from '../../src/core/queue';
+import { Conductor } from '../../src/services/conductor';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_conductor_drain.sqlite');
+
+let queue: WorkQueue;
+let handler: TicketHandler;
+
+// Real Hooks running a test handler instead of agents (WorkerPool is mocked by other suites)
+class TestPool {
+    private hooks: Hook[];
+
+    constructor(role: string) {
+        this.hooks = role === 'worker' ? [new Hook(`${role}-1`, role, (ticket, signal) => handler(ticket, signal), queue)] : [];
+    }
+
+    start() {
+        for (const hook of this.hooks) hook.start();
+    }
+
+    stop() {
+        for (const hook of this.hooks) hook.stop();
+    }
+
+    async drain() {
+        await Promise.all(this.hooks.map((hook) => hook.drain()));
+    }
+}
+
+describe('Conductor drain', () => {
+    let conductor: Conductor;
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+        const config = ConfigSchema.parse({
+            providers: { ollama: {} },
+            beads: { path: '.beads' },
+            worker: {},
+            agents: {
+                router: { provider: 'ollama', model: 'test' },
+                worker: { provider: 'ollama', model: 'test' },
+                gatekeeper: { provider: 'ollama', model: 'test' },
+            },
+        });
+        setConfig(config);
+        conductor = new Conductor({} as BeadsClient, queue, config, TestPool as unknown as typeof WorkerPool);
+    });
+
+    afterEach(async () => {
+        await conductor.stop();
+        queue.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    afterAll(() => {
+        resetConfig();
+    });
+
+    const startWorkers = async () => {
+        conductor['workerPool'].start();
+        while (!queue.getAttempts('bead-1').length) await new Promise((r) => setTimeout(r, 5));
+    };
+
+    it('should let in-flight tickets finish and claim nothing new', async () => {
+        handler = async () => {
+            await new Promise((r) => setTimeout(r, 100));
+            return { summary: 'Done' };
+        };
+        queue.enqueue('bead-1', 0, 'worker');
+        queue.enqueue('bead-2', 1, 'worker');
+        await startWorkers();
+
+        expect(await conductor.drain(5000)).toBe(true);
+
+        expect(queue.getLatestTicket('bead-1')?.status).toBe('completed');
+        expect(queue.getLatestTicket('bead-2')?.status).toBe('queued');
+    });
+
+    it('should return tickets still running after the grace period to the queue', async () => {
+        handler = () => new Promise(() => {});
+        queue.enqueue('bead-1', 0, 'worker');
+        await startWorkers();
+
+        expect(await conductor.drain(50)).toBe(false);
+
+        expect(queue.getActiveTicket('bead-1')).toMatchObject({ status: 'queued', retry_count: 0 });
+        expect(queue.getAttempts('bead-1')).toMatchObject([{ outcome: 'cancelled' }]);
+    });
+
+    it('should not start the pools when drained while starting', async () => {
+        handler = async () => ({ summary: 'Done' });
+        queue.enqueue('bead-1', 0, 'worker');
+        let release: (() => void) | undefined;
+        conductor['validateEnvironment'] = async () => {
+            await new Promise<void>((r) => (release = r));
+            return true;
+        };
+
+        const starting = conductor.start();
+        while (!release) await new Promise((r) => setTimeout(r, 5));
+        expect(await conductor.drain(50)).toBe(true);
+        release?.();
+        await starting;
+        await new Promise((r) => setTimeout(r, 50));
+
+        expect(queue.getAttempts('bead-1')).toEqual([]);
+        expect(queue.getActiveTicket('bead-1')?.status).toBe('queued');
+    });
+});
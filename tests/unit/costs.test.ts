@@ -0,0 +1,137 @@
+import { describe, it, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import type { LanguageModel, ModelMessage } from 'ai';
+import * as configModule from '../../src/config';
+import { type CitadelConfig, ConfigSchema } from '../../src/config/schema';
+import { CoreAgent } from '../../src/core/agent';
+import type { Bead, BeadsClient } from '../../src/core/beads';
+import { calculateCost, CostLedger, getModelPrice, getMoleculeId, isBudgetExceededError, setCostLedgerInstance } from '../../src/core/costs';
+import { clearGlobalSingleton } from '../../src/core/registry';
+
+// Other suites mock the config module, so answer getConfig from here while a test sets a config
+const previousGetConfig = configModule.getConfig;
+let testConfig: CitadelConfig | null = null;
+mock.module('../../src/config', () => ({ ...configModule, getConfig: () => testConfig ?? previousGetConfig() }));
+
+// A molecule whose second step cooked a sub-formula into a nested epic
+const beads = new Map<string, Bead>([
+    ['mol-1', { id: 'mol-1', type: 'epic' } as Bead],
+    ['sub-1', { id: 'sub-1', type: 'epic', parent: 'mol-1' } as Bead],
+    ['step-a', { id: 'step-a', parent: 'sub-1' } as Bead],
+    ['task', { id: 'task', type: 'task' } as Bead],
+    ['subtask', { id: 'subtask', parent: 'task' } as Bead],
+]);
+const client = {
+    get: async (id: string) => beads.get(id)!,
+    addComment: async () => '',
+} as unknown as BeadsClient;
+
+// One million input and one million output tokens per call
+class SpendingAgent extends CoreAgent {
+    calls = 0;
+
+    constructor(role: 'worker' | 'router' = 'worker', private rounds = Infinity) {
+        super(role, {} as LanguageModel, client);
+    }
+
+    protected async executeGenerateText(_messages: ModelMessage[]): Promise<any> {
+        this.calls++;
+        return {
+            text: 'Thinking',
+            toolCalls: this.calls > this.rounds ? [] : [{ toolCallId: `call-${this.calls}`, toolName: 'missing_tool', input: {} }],
+            usage: { inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: 2_000_000 },
+        };
+    }
+}
+
+describe('Cost accounting', () => {
+    let ledger: CostLedger;
+
+    beforeEach(() => {
+        ledger = new CostLedger(':memory:');
+        setCostLedgerInstance(ledger);
+    });
+
+    afterEach(() => {
+        ledger.close();
+    });
+
+    afterAll(() => {
+        clearGlobalSingleton('cost_ledger');
+        testConfig = null;
+    });
+
+    it('should price models from the configured table over the defaults', () => {
+        expect(getModelPrice('openai', 'gpt-4o')).toEqual({ input: 2.5, output: 10 });
+        expect(getModelPrice('openai', 'gpt-4o', { 'openai/gpt-4o': { input: 1, output: 2 } })).toEqual({ input: 1, output: 2 });
+        expect(getModelPrice('ollama', 'llama3')).toEqual({ input: 0, output: 0 });
+        expect(calculateCost({ input: 3, output: 15 }, { inputTokens: 2000, outputTokens: 1000 })).toBeCloseTo(0.021);
+    });
+
+    it('should accumulate spend per bead and molecule', () => {
+        const entry = { role: 'worker', provider: 'openai', model: 'gpt-4o', input_tokens: 10, output_tokens: 5 };
+        ledger.record({ ...entry, bead_id: 'step-a', molecule_id: 'mol-1', cost: 0.5 });
+        ledger.record({ ...entry, bead_id: 'step-a', molecule_id: 'mol-1', cost: 0.25 });
+        ledger.record({ ...entry, bead_id: 'step-b', molecule_id: 'mol-1', cost: 1 });
+        ledger.record({ ...entry, bead_id: 'lone', molecule_id: null, cost: 0.1 });
+
+        expect(ledger.getBeadCost('step-a')).toBe(0.75);
+        expect(ledger.getMoleculeCost('mol-1')).toBe(1.75);
+        expect(ledger.summarize().map((r) => [r.id, r.cost, r.runs])).toEqual([['mol-1', 1.75, 3], ['lone', 0.1, 1]]);
+        expect(ledger.summarize('mol-1').map((r) => [r.id, r.cost, r.input_tokens])).toEqual([['step-b', 1, 10], ['step-a', 0.75, 20]]);
+
+        expect(() => ledger.checkBudget('step-a', 'mol-1', { bead: 1, molecule: 2 })).not.toThrow();
+        expect(() => ledger.checkBudget('step-a', 'mol-1', { bead: 0.5 })).toThrow('Bead step-a spent $0.7500, over its budget of $0.50');
+        expect(() => ledger.checkBudget('step-a', 'mol-1', { molecule: 1.5 })).toThrow('Molecule mol-1 spent');
+    });
+
+    it('should charge nested molecules to their top-level epic', async () => {
+        expect(await getMoleculeId(beads.get('step-a')!, client)).toBe('mol-1');
+        expect(await getMoleculeId(beads.get('sub-1')!, client)).toBe('mol-1');
+        expect(await getMoleculeId(beads.get('mol-1')!, client)).toBe('mol-1');
+        expect(await getMoleculeId(beads.get('subtask')!, client)).toBe('task');
+    });
+
+    it('should stop a run that crosses its budget', async () => {
+        testConfig = ConfigSchema.parse({
+            providers: { openai: {} },
+            beads: { path: '.beads' },
+            worker: { costLimit: 100, moleculeCostLimit: 20 },
+            pricing: { 'openai/test-model': { input: 4, output: 4 } },
+            agents: {
+                router: { provider: 'openai', model: 'test-model' },
+                worker: { provider: 'openai', model: 'test-model' },
+                gatekeeper: { provider: 'openai', model: 'test-model' },
+            },
+        });
+        const bead = beads.get('step-a')!;
+        const agent = new SpendingAgent();
+
+        // $8 per call: the third call takes the molecule to $24
+        const error = await agent.run('Spend', { beadId: 'step-a', bead }).catch((e) => e);
+
+        expect(isBudgetExceededError(error)).toBe(true);
+        expect(error.message).toBe('Molecule mol-1 spent $24.0000, over its budget of $20.00');
+        expect(agent.calls).toBe(3);
+        expect(ledger.summarize('mol-1')).toMatchObject([{ id: 'step-a', runs: 3, cost: 24 }]);
+    });
+
+    it('should charge routing without stopping it', async () => {
+        testConfig = ConfigSchema.parse({
+            providers: { openai: {} },
+            beads: { path: '.beads' },
+            worker: { costLimit: 1 },
+            pricing: { 'openai/test-model': { input: 4, output: 4 } },
+            agents: {
+                router: { provider: 'openai', model: 'test-model' },
+                worker: { provider: 'openai', model: 'test-model' },
+                gatekeeper: { provider: 'openai', model: 'test-model' },
+            },
+        });
+        const router = new SpendingAgent('router', 1);
+
+        await router.run('Route', { beadId: 'step-b' });
+
+        expect(router.calls).toBe(2);
+        expect(ledger.getBeadCost('step-b')).toBe(16);
+    });
+});
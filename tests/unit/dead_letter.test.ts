@@ -0,0 +1,117 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Bead, BeadsClient } from '../../src/core/beads';
+import { CostLedger } from '../../src/core/costs';
+import { WorkQueue } from '../../src/core/queue';
+import { DEAD_LETTER_LABEL, DeadLetterService } from '../../src/services/dead-letter';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_dead_letter.sqlite');
+
+describe('DeadLetterService', () => {
+    let queue: WorkQueue;
+    let store: Map<string, Bead>;
+    let beads: BeadsClient;
+    let service: DeadLetterService;
+    let ledger: CostLedger;
+
+    const bead = (overrides: Partial<Bead>): Bead => ({
+        id: 'bead', title: 'Bead', status: 'open', priority: 2, created_at: '', updated_at: '', labels: [], ...overrides,
+    });
+
+    // Claims and fails the ticket of a bead until its retries are exhausted
+    const exhaust = (beadId: string, error: string) => {
+        queue.enqueue(beadId, 1, 'worker');
+        const ticket = queue.claim('worker-1', 'worker')!;
+        queue.fail(ticket.id, false, 0, undefined, error);
+        return queue.getTicket(ticket.id)!;
+    };
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+
+        store = new Map([
+            ['broken', bead({ id: 'broken', labels: ['failed', 'agent-error', 'step:a'] })],
+            ['other', bead({ id: 'other' })],
+        ]);
+
+        beads = {
+            get: mock(async (id: string) => store.get(id)),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => {
+                const current = store.get(id)!;
+                const labels = [...(current.labels || []), ...(changes.labels || [])]
+                    .filter((l) => !(changes.remove_labels || []).includes(l));
+                store.set(id, { ...current, status: changes.status ?? current.status, labels });
+                return store.get(id);
+            }),
+            addComment: mock(async () => ''),
+        } as unknown as BeadsClient;
+        ledger = new CostLedger(':memory:');
+        service = new DeadLetterService(beads, queue, ledger);
+    });
+
+    afterEach(async () => {
+        queue.close();
+        ledger.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    it('should keep permanently failed tickets with their failure reason', () => {
+        const ticket = exhaust('broken', 'Tool crashed');
+        queue.enqueue('other', 1, 'worker');
+        queue.fail(queue.claim('worker-1', 'worker')!.id, true, 10, undefined, 'Bead not found');
+
+        expect(ticket.status).toBe('failed');
+        expect(ticket.completed_at).toBeGreaterThan(0);
+        expect(service.list().map((t) => [t.bead_id, t.failure_reason])).toEqual(
+            expect.arrayContaining([
+                ['broken', 'Exceeded max retries (0): Tool crashed'],
+                ['other', 'Bead not found'],
+            ]),
+        );
+        expect(service.show('broken')).toMatchObject({
+            ticket: { id: ticket.id },
+            attempts: [{ outcome: 'failed', error: 'Tool crashed' }],
+        });
+        expect(() => service.show('missing')).toThrow('No dead letter found for missing');
+    });
+
+    it('should label the bead and explain the failure in a comment', async () => {
+        const ticket = exhaust('broken', 'Tool crashed');
+        await service.record(ticket, new Error('Tool crashed'));
+
+        expect(store.get('broken')?.labels).toContain(DEAD_LETTER_LABEL);
+        expect(beads.addComment).toHaveBeenCalledWith(
+            'broken',
+            `Ticket ${ticket.id} (worker) moved to the dead-letter queue after 0 retries: Exceeded max retries (0): Tool crashed`,
+        );
+    });
+
+    it('should requeue a dead letter with fresh retry and cost budgets', async () => {
+        const ticket = exhaust('broken', 'Tool crashed');
+        await service.record(ticket, new Error('Tool crashed'));
+        ledger.record({ bead_id: 'broken', molecule_id: null, role: 'worker', provider: 'openai', model: 'gpt-4o', input_tokens: 1, output_tokens: 1, cost: 2 });
+
+        await service.requeue('broken');
+
+        expect(queue.getActiveTicket('broken')).toMatchObject({ id: ticket.id, status: 'queued', retry_count: 0, failure_reason: null });
+        expect(store.get('broken')?.labels).toEqual(['step:a']);
+        expect(() => ledger.checkBudget('broken', null, { bead: 1 })).not.toThrow();
+        expect(service.list()).toEqual([]);
+        expect(service.requeue('broken')).rejects.toThrow('No dead letter found for broken');
+    });
+
+    it('should purge single or all dead letters and drop archived ones', () => {
+        const first = exhaust('broken', 'a');
+        exhaust('other', 'b');
+
+        expect(service.purge(first.id)).toBe(1);
+        expect(service.list().map((t) => t.bead_id)).toEqual(['other']);
+
+        queue.archiveBead('other');
+        expect(service.list()).toEqual([]);
+        expect(service.purge()).toBe(0);
+    });
+});
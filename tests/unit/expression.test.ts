@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test';
+import { evaluateCondition, parseExpression } from '../../src/core/expression';
+import { type Formula, validateFormula } from '../../src/core/formula';
+
+const scope = {
+    env: 'prod',
+    replicas: 4,
+    flag: 'false',
+    services: ['auth', 'payment'],
+    branch: 'release/1.2',
+    empty_list: [],
+    steps: { lint: { output: { ok: true, issues: 0 } } },
+};
+
+describe('Expression evaluator', () => {
+    it('should keep the legacy comparison form working', () => {
+        expect(evaluateCondition("{{env}} == 'prod'", scope)).toBe(true);
+        expect(evaluateCondition("{{env}} != 'prod'", scope)).toBe(false);
+        expect(evaluateCondition('true', scope)).toBe(true);
+        expect(evaluateCondition('{{replicas}} == "4"', scope)).toBe(true);
+    });
+
+    it('should support boolean operators and parentheses', () => {
+        expect(evaluateCondition("env == 'dev' || (replicas > 3 && !empty(services))", scope)).toBe(true);
+        expect(evaluateCondition("!(env == 'prod')", scope)).toBe(false);
+        expect(evaluateCondition('flag', scope)).toBe(false);
+        expect(evaluateCondition('empty(empty_list) && empty(missing)', scope)).toBe(true);
+    });
+
+    it('should support in, numeric comparisons and regex matches', () => {
+        expect(evaluateCondition("'auth' in services", scope)).toBe(true);
+        expect(evaluateCondition("env not in ['dev', 'staging']", scope)).toBe(true);
+        expect(evaluateCondition('replicas >= 4 && replicas < 10', scope)).toBe(true);
+        expect(evaluateCondition("branch =~ '^release/'", scope)).toBe(true);
+        expect(evaluateCondition("branch !~ '^release/'", scope)).toBe(false);
+        expect(evaluateCondition('len(services) == 2', scope)).toBe(true);
+    });
+
+    it('should resolve nested paths', () => {
+        expect(evaluateCondition('{{steps.lint.output.ok}} && steps.lint.output.issues == 0', scope)).toBe(true);
+    });
+
+    it('should report parse errors with positions', () => {
+        expect(() => parseExpression("env == 'prod' &&")).toThrow('Unexpected end of expression at position 16');
+        expect(() => parseExpression('(env == 1')).toThrow("Expected ')'");
+        expect(() => parseExpression("env =~ '['")).toThrow('Invalid regular expression');
+        expect(() => parseExpression('exec(env)')).toThrow("Unknown function 'exec'");
+        expect(() => parseExpression('env = 1')).toThrow("Unexpected character '='");
+    });
+
+    it('should refuse ordered comparisons between incompatible values', () => {
+        expect(() => evaluateCondition('services > 1', scope)).toThrow('Cannot compare');
+    });
+
+    it('should surface invalid conditions during formula validation', () => {
+        const formula: Formula = {
+            formula: 'conditional',
+            description: 'Conditional',
+            steps: [{ id: 'deploy', title: 'Deploy', description: 'Deploy', if: "{{env}} == 'prod' ||" }],
+        };
+        const issues = validateFormula(formula);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ step: 'deploy' });
+        expect(issues[0]?.message).toStartWith('if: Unexpected end of expression');
+    });
+});
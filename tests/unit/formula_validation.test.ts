@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { type Formula, FormulaRegistry, validateFormula } from '../../src/core/formula';
+import { WorkflowEngine } from '../../src/services/workflow-engine';
+
+const formula = (steps: Formula['steps']): Formula => ({ formula: 'test', description: 'Test', steps });
+const step = (id: string, extra: Partial<Formula['steps'][number]> = {}) => ({ id, title: id, description: id, ...extra });
+
+describe('validateFormula', () => {
+    it('should accept a well-formed formula', () => {
+        const issues = validateFormula(formula([
+            step('a'),
+            step('b', { needs: ['a'], context: { input: '{{steps.a.output.value}}' }, on_failure: 'c' }),
+            step('c'),
+        ]));
+        expect(issues).toEqual([]);
+    });
+
+    it('should report unknown step references with locations', () => {
+        const issues = validateFormula(formula([
+            step('a', { needs: ['missing'], on_failure: 'ghost' }),
+        ]), 'test.toml');
+
+        expect(issues).toHaveLength(2);
+        expect(issues[0]).toMatchObject({ file: 'test.toml', step: 'a' });
+        expect(issues.map((i) => i.message).join('\n')).toContain("unknown step 'missing'");
+        expect(issues.map((i) => i.message).join('\n')).toContain("unknown step 'ghost'");
+    });
+
+    it('should detect dependency cycles', () => {
+        const issues = validateFormula(formula([
+            step('a', { needs: ['c'] }),
+            step('b', { needs: ['a'] }),
+            step('c', { needs: ['b'] }),
+        ]));
+        expect(issues).toHaveLength(1);
+        expect(issues[0]?.message).toBe('Dependency cycle: a -> c -> b -> a');
+    });
+
+    it('should reject context references to steps that are not upstream', () => {
+        const issues = validateFormula(formula([
+            step('a'),
+            step('b', { context: { input: 'Use {{steps.a.output}}' } }),
+        ]));
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ step: 'b' });
+        expect(issues[0]?.message).toContain('not upstream');
+    });
+
+    it('should accept references to transitive ancestors', () => {
+        const issues = validateFormula(formula([
+            step('a'),
+            step('b', { needs: ['a'] }),
+            step('c', { needs: ['b'], title: 'Summarise {{steps.a.output.title}}', context: { input: '{{steps.a.output}}' } }),
+        ]));
+        expect(issues).toEqual([]);
+    });
+
+    it('should report unknown steps in titles and descriptions', () => {
+        const issues = validateFormula(formula([
+            step('a', { title: 'About {{steps.ghost.output}}', description: 'See {{steps.a.output}}' }),
+        ]));
+        expect(issues.map((i) => i.message)).toEqual([
+            "title references unknown step 'ghost'",
+            "description references step 'a', which is not upstream (it must be reachable through needs)",
+        ]);
+    });
+});
+
+describe('FormulaRegistry validation', () => {
+    const dir = join(process.cwd(), '.test_formula_validation');
+
+    beforeEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+        await mkdir(dir, { recursive: true });
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should record schema errors instead of silently dropping formulas', async () => {
+        await writeFile(join(dir, 'broken.toml'), `
+formula = "broken"
+description = "Broken"
+
+[[steps]]
+id = "first"
+description = "No title"
+`);
+        const registry = new FormulaRegistry(dir);
+        await registry.loadAll();
+
+        expect(registry.get('broken')).toBeUndefined();
+        const issues = registry.validate('broken');
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ file: join(dir, 'broken.toml'), step: 'first' });
+        expect(issues[0]?.message).toStartWith('title:');
+    });
+});
+
+describe('WorkflowEngine.planFormula', () => {
+    const dir = join(process.cwd(), '.test_formula_plan');
+    let engine: WorkflowEngine;
+
+    beforeEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+        await mkdir(dir, { recursive: true });
+        await writeFile(join(dir, 'fanout.toml'), `
+formula = "fanout"
+description = "Build {{target}}"
+
+[vars.target]
+description = "Target"
+default = "app"
+
+[vars.mode]
+description = "Mode"
+default = "fast"
+
+[[steps]]
+id = "setup"
+title = "Setup {{target}}"
+description = "Prepare"
+
+[[steps]]
+id = "test"
+title = "Test {{pkg}}"
+description = "Test a package"
+needs = ["setup"]
+for = { items = "core, cli", as = "pkg" }
+
+[[steps]]
+id = "audit"
+title = "Audit"
+description = "Slow audit"
+if = "{{mode}} == 'thorough'"
+`);
+        const registry = new FormulaRegistry(dir);
+        await registry.loadAll();
+        engine = new WorkflowEngine(registry);
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should expand loops, evaluate conditions and compute edges', () => {
+        const plan = engine.planFormula('fanout', {});
+
+        expect(plan.title).toBe('[Molecule] Build app');
+        expect(plan.steps.map((s) => [s.key, s.title])).toEqual([
+            ['setup', 'Setup app'],
+            ['test[0]', 'Test core'],
+            ['test[1]', 'Test cli'],
+        ]);
+        expect(plan.skipped.map((s) => s.stepId)).toEqual(['audit']);
+        expect(plan.edges).toEqual([
+            { blocked: 'test[0]', blocker: 'setup', type: 'needs' },
+            { blocked: 'test[1]', blocker: 'setup', type: 'needs' },
+        ]);
+    });
+
+    it('should iterate native list variables', async () => {
+        await writeFile(join(dir, 'matrix.toml'), `
+formula = "matrix"
+description = "Matrix"
+
+[vars.targets]
+description = "Targets"
+type = "list"
+default = [{ os = "linux" }, { os = "mac" }]
+
+[[steps]]
+id = "build"
+title = "Build {{target}}"
+description = "Build"
+for = { items = "{{targets}}", as = "target" }
+`);
+        const registry = new FormulaRegistry(dir);
+        await registry.loadAll();
+
+        const plan = new WorkflowEngine(registry).planFormula('matrix', {});
+        expect(plan.steps.map((s) => s.iteration)).toEqual([{ target: { os: 'linux' } }, { target: { os: 'mac' } }]);
+        expect(plan.steps[0]?.title).toBe('Build {"os":"linux"}');
+    });
+
+    it('should reject invalid variables', async () => {
+        await writeFile(join(dir, 'typed.toml'), `
+formula = "typed"
+description = "Typed"
+
+[vars.replicas]
+description = "Replicas"
+type = "number"
+required = true
+
+[[steps]]
+id = "scale"
+title = "Scale to {{replicas}}"
+description = "Scale"
+`);
+        const registry = new FormulaRegistry(dir);
+        await registry.loadAll();
+        const typed = new WorkflowEngine(registry);
+
+        expect(() => typed.planFormula('typed', { replicas: 'many' })).toThrow(
+            `Invalid variables for formula 'typed':\n  - replicas: expected a number, got "many"`,
+        );
+        expect(typed.planFormula('typed', { replicas: '3' }).steps[0]?.title).toBe('Scale to 3');
+    });
+});
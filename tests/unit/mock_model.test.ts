@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { MockScript, mockModel } from '../../src/core/mock-model';
+
+const TEST_DIR = join(process.cwd(), '.test_mock_model');
+const SCRIPT = join(TEST_DIR, 'script.yaml');
+
+const SCRIPT_YAML = `
+rules:
+  - role: router
+    title: Please route it
+    steps:
+      - tool: enqueue_task
+        input: { queue: worker }
+  - role: worker
+    labels: ["step:draft*"]
+    steps:
+      - text: Drafting
+        tool: submit_work
+        input:
+          summary: Drafted the post
+          output: { words: 420 }
+  - role: gatekeeper
+    title: ^Write
+    attempt: 1
+    steps:
+      - tool: reject_work
+        input: { reason: Too short }
+  - role: gatekeeper
+    steps:
+      - tool: approve_work
+        input: { comment: Looks good }
+`;
+
+// Call options shaped like CoreAgent.run's first request, plus any history so far
+function call(context: object, request: string, history: any[] = []) {
+    return {
+        prompt: [
+            { role: 'system' as const, content: 'You are an agent.' },
+            { role: 'user' as const, content: [{ type: 'text' as const, text: `Context: ${JSON.stringify(context)}\n\nRequest: ${request}` }] },
+            ...history,
+        ],
+    };
+}
+
+const assistant = (text: string) => ({ role: 'assistant', content: [{ type: 'text', text }] });
+
+describe('Mock provider', () => {
+    let script: MockScript;
+    const bead = { id: 'bd-1', title: 'Write the launch post', labels: ['step:draft-post'] };
+
+    beforeEach(async () => {
+        await mkdir(TEST_DIR, { recursive: true });
+        await writeFile(SCRIPT, SCRIPT_YAML);
+        script = new MockScript(SCRIPT);
+    });
+
+    afterEach(async () => {
+        await rm(TEST_DIR, { recursive: true, force: true });
+    });
+
+    it('should play the steps of the matching rule, then stop', async () => {
+        const worker = mockModel('worker', 'scripted', script);
+
+        const first = await worker.doGenerate(call({ beadId: 'bd-1', bead }, `Process this task: ${bead.title}`));
+        expect(first.content).toEqual([
+            { type: 'text', text: 'Drafting' },
+            { type: 'tool-call', toolCallId: 'mock-1-1', toolName: 'submit_work', input: '{"summary":"Drafted the post","output":{"words":420}}' },
+        ]);
+        expect(first.finishReason.unified).toBe('tool-calls');
+
+        const second = await worker.doGenerate(call({ beadId: 'bd-1', bead }, `Process this task: ${bead.title}`, [assistant('Drafting')]));
+        expect(second.content).toEqual([{ type: 'text', text: 'Done' }]);
+        expect(second.finishReason.unified).toBe('stop');
+    });
+
+    it('should count runs per role and bead to select attempts', async () => {
+        const gatekeeper = mockModel('gatekeeper', 'scripted', script);
+        const verify = () => gatekeeper.doGenerate(call({ beadId: 'bd-1', bead }, `Verify this work: ${bead.title}`));
+
+        const toolOf = (result: Awaited<ReturnType<typeof verify>>) =>
+            result.content.flatMap((part) => (part.type === 'tool-call' ? [part.toolName] : []));
+
+        expect(toolOf(await verify())).toEqual(['reject_work']);
+        expect(toolOf(await verify())).toEqual(['approve_work']);
+        expect(toolOf(await verify())).toEqual(['approve_work']);
+    });
+
+    it('should match the router on its request and fail loudly without a rule', async () => {
+        const router = mockModel('router', 'scripted', script);
+        const routed = await router.doGenerate(call({ beadId: 'bd-1', status: 'open' }, `New task found: ${bead.title}. Please route it.`));
+        expect(routed.content).toMatchObject([{ toolName: 'enqueue_task', input: '{"queue":"worker"}' }]);
+
+        const unrouted = router.doGenerate(call({ beadId: 'bd-1', status: 'verify' }, `Task ready for verification: ${bead.title}.`));
+        await expect(unrouted).rejects.toThrow(`has no rule for router on 'Task ready for verification: ${bead.title}.' (attempt 2)`);
+
+        const worker = mockModel('worker', 'scripted', script);
+        await expect(worker.doGenerate(call({ beadId: 'bd-2', bead: { ...bead, labels: [] } }, 'Process'))).rejects.toThrow('has no rule for worker');
+    });
+
+    it('should reject invalid scripts', async () => {
+        await writeFile(SCRIPT, 'rules:\n  - role: worker\n    steps:\n      - input: {}\n');
+        expect(() => new MockScript(SCRIPT)).toThrow('A step needs a text or a tool');
+    });
+});
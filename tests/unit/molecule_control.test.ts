@@ -0,0 +1,92 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Bead, BeadsClient } from '../../src/core/beads';
+import { WorkQueue } from '../../src/core/queue';
+import {
+    CANCELLED_LABEL,
+    isMoleculeHalted,
+    MoleculeControl,
+    PAUSED_LABEL,
+} from '../../src/services/molecule-control';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_molecule_control.sqlite');
+
+describe('MoleculeControl', () => {
+    let queue: WorkQueue;
+    let store: Map<string, Bead>;
+    let beads: BeadsClient;
+
+    const bead = (overrides: Partial<Bead>): Bead => ({
+        id: 'bead', title: 'Bead', status: 'open', priority: 2, created_at: '', updated_at: '', labels: [], ...overrides,
+    });
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+
+        store = new Map([
+            ['mol', bead({ id: 'mol', type: 'epic' })],
+            ['done', bead({ id: 'done', parent: 'mol', status: 'done' })],
+            ['running', bead({ id: 'running', parent: 'mol', status: 'in_progress' })],
+            ['waiting', bead({ id: 'waiting', parent: 'mol' })],
+        ]);
+
+        beads = {
+            get: mock(async (id: string) => store.get(id)),
+            getDescendants: mock(async () => [...store.values()].filter((b) => b.parent === 'mol')),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => {
+                const current = store.get(id)!;
+                let labels = [...(current.labels || []), ...(changes.labels || [])];
+                labels = labels.filter((l) => !(changes.remove_labels || []).includes(l));
+                store.set(id, { ...current, labels });
+                return store.get(id);
+            }),
+            addComment: mock(async () => ''),
+        } as unknown as BeadsClient;
+    });
+
+    afterEach(async () => {
+        queue.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    it('should pause unfinished beads and cancel their tickets', async () => {
+        queue.enqueue('running', 1, 'worker');
+        const inFlight = queue.claim('worker-1', 'worker');
+        queue.enqueue('waiting', 1, 'worker');
+
+        const result = await new MoleculeControl(beads, queue).pause('mol');
+
+        expect(result.beads.sort()).toEqual(['running', 'waiting']);
+        expect(result.tickets).toBe(2);
+        expect(isMoleculeHalted(store.get('running')!)).toBe(true);
+        expect(isMoleculeHalted(store.get('done')!)).toBe(false);
+        expect(queue.getActiveTicket('waiting')).toBeNull();
+        expect(queue.getTicket(inFlight!.id)?.status).toBe('cancelled');
+        expect(beads.addComment).toHaveBeenCalled();
+    });
+
+    it('should resume a paused molecule', async () => {
+        const control = new MoleculeControl(beads, queue);
+        await control.pause('mol');
+        const result = await control.resume('mol');
+
+        expect(result.beads.sort()).toEqual(['running', 'waiting']);
+        expect(store.get('mol')?.labels).not.toContain(PAUSED_LABEL);
+        expect(isMoleculeHalted(store.get('waiting')!)).toBe(false);
+    });
+
+    it('should refuse to resume a cancelled molecule', async () => {
+        const control = new MoleculeControl(beads, queue);
+        await control.cancel('mol');
+
+        expect(store.get('waiting')?.labels).toContain(CANCELLED_LABEL);
+        expect(control.resume('mol')).rejects.toThrow('cannot be resumed');
+    });
+
+    it('should reject beads that are not molecules', async () => {
+        expect(new MoleculeControl(beads, queue).pause('waiting')).rejects.toThrow('is not a molecule');
+    });
+});
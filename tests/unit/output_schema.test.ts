@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { setQueueInstance, WorkQueue } from '../../src/core/queue';
+import { clearGlobalSingleton } from '../../src/core/registry';
+import { getSchemaVersion, jsonSchemaToZod } from '../../src/core/schema-utils';
+import { createSubmitWorkTool } from '../../src/tools/worker';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_output_schema.sqlite');
+
+const outputSchema = {
+    type: 'object',
+    properties: {
+        files: { type: 'array', items: { type: 'string' } },
+        count: { type: 'number' },
+    },
+    required: ['files', 'count'],
+};
+
+describe('Step output schema enforcement', () => {
+    let queue: WorkQueue;
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+        setQueueInstance(queue);
+    });
+
+    afterEach(async () => {
+        queue.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    afterAll(() => {
+        clearGlobalSingleton('work_queue');
+    });
+
+    const submit = (output: unknown) => {
+        const submitWork = createSubmitWorkTool({}, jsonSchemaToZod(outputSchema), getSchemaVersion(outputSchema));
+        // biome-ignore lint/style/noNonNullAssertion: test
+        return submitWork.execute!({ summary: 'Done', output } as never, { beadId: 'bead-1' } as never);
+    };
+
+    it('should reject free text and malformed output with the schema issues', async () => {
+        queue.enqueue('bead-1', 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        const ticket = queue.claim('worker-1', 'worker')!;
+
+        expect(submit('I migrated the files')).rejects.toThrow("Output does not match the step's output_schema");
+        expect(submit({ files: 'a.ts', count: 1 })).rejects.toThrow('output.files:');
+        expect(submit('{"files": ["a.ts"]}')).rejects.toThrow('output.count:');
+
+        // Nothing was completed
+        expect(queue.getActiveTicket('bead-1')?.id).toBe(ticket.id);
+        expect(queue.getOutput('bead-1')).toBeNull();
+    });
+
+    it('should store outputs with the schema version they were validated against', () => {
+        queue.enqueue('bead-1', 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        queue.complete(queue.claim('worker-1', 'worker')!.id, { files: ['a.ts'], count: 1 }, getSchemaVersion(outputSchema));
+        queue.enqueue('bead-2', 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        queue.complete(queue.claim('worker-1', 'worker')!.id, { summary: 'Free form' });
+
+        expect(queue.getOutputRecord('bead-1')).toEqual({
+            output: { files: ['a.ts'], count: 1 },
+            schemaVersion: getSchemaVersion(outputSchema),
+        });
+        expect(queue.getOutputRecord('bead-2')?.schemaVersion).toBeNull();
+        expect(queue.getOutputRecord('bead-3')).toBeNull();
+    });
+
+    it('should version schemas by content, not key order', () => {
+        const reordered = { required: ['files', 'count'], properties: outputSchema.properties, type: 'object' };
+        expect(getSchemaVersion(reordered)).toBe(getSchemaVersion(outputSchema));
+        expect(getSchemaVersion({ ...outputSchema, required: ['files'] })).not.toBe(getSchemaVersion(outputSchema));
+    });
+});
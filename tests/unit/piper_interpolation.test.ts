@@ -0,0 +1,146 @@
+import { describe, it, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { type Bead, setBeadsInstance } from '../../src/core/beads';
+import { setQueueInstance, WorkQueue } from '../../src/core/queue';
+import { clearGlobalSingleton } from '../../src/core/registry';
+import { DataPiper, isUnknownStepError } from '../../src/services/piper';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_piper_interpolation.sqlite');
+
+describe('DataPiper interpolation', () => {
+    let queue: WorkQueue;
+    let store: Map<string, Bead>;
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    let beads: any;
+
+    const bead = (overrides: Partial<Bead>): Bead => ({
+        id: 'bead', title: 'Bead', status: 'open', priority: 2, created_at: '', updated_at: '', labels: [], ...overrides,
+    });
+
+    const finish = (beadId: string, output: unknown) => {
+        queue.enqueue(beadId, 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        queue.complete(queue.claim('worker-1', 'worker')!.id, output);
+    };
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+        setQueueInstance(queue);
+
+        store = new Map([
+            ['research', bead({ id: 'research', status: 'done', labels: ['step:research'] })],
+            ['plan', bead({ id: 'plan', status: 'done', labels: ['step:plan'] })],
+            ['write', bead({
+                id: 'write',
+                title: 'Write about {{steps.research.output.title}}',
+                description: 'Audience: {{steps.plan.output.audience}}. Sources: {{steps.research.output.sources}}',
+                blockers: ['research', 'plan'],
+                labels: ['step:write'],
+                context: {
+                    brief: 'Summarise {{steps.research.output.title}} for {{steps.plan.output.audience}}',
+                    sources: '{{steps.research.output.sources}}',
+                    nested: { note: 'Tone: {{steps.plan.output.tone}}' },
+                },
+            })],
+        ]);
+        beads = {
+            get: mock(async (id: string) => store.get(id)),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => {
+                const updated = { ...store.get(id), ...changes };
+                store.set(id, updated);
+                return updated;
+            }),
+        };
+        setBeadsInstance(beads);
+
+        finish('research', { title: 'Vector databases', sources: ['a.com', 'b.com'] });
+        finish('plan', { audience: 'CTOs' });
+    });
+
+    afterEach(async () => {
+        queue.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    afterAll(() => {
+        clearGlobalSingleton('beads_client');
+        clearGlobalSingleton('work_queue');
+    });
+
+    it('should interpolate every reference inside context strings', async () => {
+        expect(await new DataPiper(beads).pipeData('write')).toBe(true);
+
+        const context = store.get('write')?.context;
+        expect(context?.brief).toBe('Summarise Vector databases for CTOs');
+        expect(context?.sources).toEqual(['a.com', 'b.com']);
+        expect(context?.nested).toEqual({ note: 'Tone: ' });
+    });
+
+    it('should refuse references to unknown steps', async () => {
+        // biome-ignore lint/style/noNonNullAssertion: test
+        store.get('write')!.context = { unknown: 'See {{steps.ghost.output}}' };
+
+        const error = await new DataPiper(beads).pipeData('write').catch((e) => e);
+        expect(isUnknownStepError(error)).toBe(true);
+        expect(error.message).toBe("Unknown step 'ghost' referenced by bead write");
+        expect(beads.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply selectors, filters and defaults', async () => {
+        // biome-ignore lint/style/noNonNullAssertion: test
+        store.get('write')!.context = {
+            first: '{{steps.research.output.sources[0]}}',
+            count: 'Found {{steps.research.output.sources | length}} sources',
+            tone: "{{steps.plan.output.tone | default: 'neutral' | upper}}",
+        };
+
+        expect(await new DataPiper(beads).pipeData('write')).toBe(true);
+        expect(store.get('write')?.context).toEqual({ first: 'a.com', count: 'Found 2 sources', tone: 'NEUTRAL' });
+    });
+
+    it('should resolve steps further upstream and elsewhere in the molecule', async () => {
+        store.set('crawl', bead({ id: 'crawl', status: 'done', parent: 'epic', labels: ['step:crawl'] }));
+        store.set('fetch', bead({ id: 'fetch', status: 'done', parent: 'epic', blockers: ['crawl'], labels: ['step:fetch'] }));
+        store.set('notes', bead({ id: 'notes', status: 'done', parent: 'epic', labels: ['step:notes'] }));
+        store.set('report', bead({
+            id: 'report',
+            parent: 'epic',
+            blockers: ['fetch'],
+            labels: ['step:report'],
+            context: { pages: '{{steps.crawl.output.pages}}', notes: '{{steps.notes.output}}' },
+        }));
+        beads.getAll = mock(async () => [...store.values()]);
+        finish('crawl', { pages: 12 });
+        finish('notes', 'Check the appendix');
+
+        expect(await new DataPiper(beads).pipeData('report')).toBe(true);
+        expect(store.get('report')?.context).toEqual({ pages: 12, notes: 'Check the appendix' });
+    });
+
+    it('should wait for steps elsewhere in the molecule that are not done', async () => {
+        store.set('notes', bead({ id: 'notes', status: 'in_progress', parent: 'epic', labels: ['step:notes'] }));
+        store.set('report', bead({
+            id: 'report',
+            title: 'Report ({{steps.notes.output}})',
+            parent: 'epic',
+            labels: ['step:report'],
+            context: { notes: '{{steps.notes.output}}', brief: 'Read {{steps.notes.output}}' },
+        }));
+        beads.getAll = mock(async () => [...store.values()]);
+
+        expect(await new DataPiper(beads).pipeData('report')).toBe(false);
+        expect(store.get('report')?.title).toBe('Report ({{steps.notes.output}})');
+        expect(store.get('report')?.context).toEqual({ notes: '{{steps.notes.output}}', brief: 'Read {{steps.notes.output}}' });
+    });
+
+    it('should interpolate titles and descriptions', async () => {
+        await new DataPiper(beads).pipeData('write');
+
+        const piped = store.get('write');
+        expect(piped?.title).toBe('Write about Vector databases');
+        expect(piped?.description).toBe('Audience: CTOs. Sources: ["a.com","b.com"]');
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { ConfigSchema } from '../../src/config/schema';
+import { createProviderModel } from '../../src/core/providers';
+
+const agents = (provider: string) => ({
+    router: { provider, model: 'm' },
+    worker: { provider, model: 'm' },
+    gatekeeper: { provider, model: 'm' },
+});
+
+const parse = (providers: object, provider: string) =>
+    ConfigSchema.safeParse({ providers, agents: agents(provider), beads: {}, worker: {} });
+
+// A chat completions response, as vLLM or LM Studio send it
+const completion = {
+    id: 'chatcmpl-1',
+    created: 0,
+    model: 'qwen2.5-7b',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 3, completion_tokens: 1 },
+};
+
+describe('Providers', () => {
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+        globalThis.fetch = originalFetch;
+    });
+
+    it('should accept named providers and reject unknown references', () => {
+        const lmstudio = { type: 'openai-compatible', baseURL: 'http://localhost:1234/v1' };
+
+        expect(parse({ lmstudio, ollama: {} }, 'lmstudio').success).toBe(true);
+        expect(parse({}, 'anthropic').success).toBe(true);
+
+        const unknown = parse({ lmstudio }, 'vllm');
+        expect(unknown.error?.issues[0]).toMatchObject({ path: ['agents', 'router', 'provider'], message: 'Unknown provider "vllm"' });
+
+        const untyped = parse({ gpu: { baseURL: 'http://gpu:8000/v1' } }, 'gpu');
+        expect(untyped.error?.issues[0]?.message).toBe('Provider "gpu" needs a type');
+    });
+
+    // Captures requests and answers them with a chat completion
+    const captureRequests = () => {
+        const requests: { url: string; headers: Headers; body: any }[] = [];
+        globalThis.fetch = (async (url: string, init: RequestInit) => {
+            requests.push({ url, headers: new Headers(init.headers), body: JSON.parse(String(init.body)) });
+            return new Response(JSON.stringify(completion), { headers: { 'content-type': 'application/json' } });
+        }) as typeof fetch;
+        return requests;
+    };
+
+    const prompt = { prompt: [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] }] };
+
+    it('should call an OpenAI-compatible endpoint with its headers and key', async () => {
+        const requests = captureRequests();
+
+        const model = createProviderModel(
+            'vllm',
+            { type: 'openai-compatible', baseURL: 'http://gpu-box:8000/v1', apiKeyEnv: 'VLLM_KEY', headers: { 'X-Team': 'citadel' } },
+            'qwen2.5-7b',
+            'worker',
+            { VLLM_KEY: 'vllm-secret' },
+        );
+        expect(model.provider).toBe('vllm.chat');
+
+        const result = await model.doGenerate(prompt);
+        expect(result.content).toEqual([{ type: 'text', text: 'Hello' }]);
+        expect(requests[0]?.url).toBe('http://gpu-box:8000/v1/chat/completions');
+        expect(requests[0]?.headers.get('authorization')).toBe('Bearer vllm-secret');
+        expect(requests[0]?.headers.get('x-team')).toBe('citadel');
+        expect(requests[0]?.body.model).toBe('qwen2.5-7b');
+    });
+
+    it('should authenticate Azure deployments with an api-key header', async () => {
+        const requests = captureRequests();
+
+        const model = createProviderModel(
+            'azure-eu',
+            { type: 'azure', resourceName: 'citadel-eu', apiKeyEnv: 'AZURE_EU_KEY' },
+            'gpt-4o-prod',
+            'worker',
+            { AZURE_EU_KEY: 'azure-secret' },
+        );
+        await model.doGenerate(prompt);
+
+        expect(requests[0]?.url).toBe('https://citadel-eu.openai.azure.com/openai/v1/chat/completions?api-version=v1');
+        expect(requests[0]?.headers.get('api-key')).toBe('azure-secret');
+        expect(requests[0]?.headers.get('authorization')).toBeNull();
+        expect(requests[0]?.body.model).toBe('gpt-4o-prod');
+    });
+
+    it('should derive endpoints per type and fail on missing settings', () => {
+        expect(createProviderModel('ollama', undefined, 'llama3', 'worker').provider).toBe('ollama.responses');
+        expect(createProviderModel('gemini', { type: 'google', apiKey: 'g-key' }, 'gemini-2.5-flash', 'worker').provider).toBe('gemini.chat');
+
+        expect(() => createProviderModel('azure', {}, 'gpt-4o', 'worker', {})).toThrow('Azure provider "azure" needs a resourceName or baseURL');
+        expect(() => createProviderModel('bedrock', { region: 'us-east-1' }, 'openai.gpt-oss-120b-1:0', 'worker', {}))
+            .toThrow('Provider "bedrock" reads its API key from AWS_BEARER_TOKEN_BEDROCK, which is not set');
+        expect(() => createProviderModel('local', { type: 'openai-compatible' }, 'm', 'worker')).toThrow('Provider "local" needs a baseURL');
+        expect(() => createProviderModel('fake', undefined, 'm', 'worker')).toThrow('Unknown provider: fake');
+    });
+});
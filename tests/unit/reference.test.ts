@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'bun:test';
+import { evaluateStepReference, parseStepReference } from '../../src/core/reference';
+import { type Formula, validateFormula } from '../../src/core/formula';
+
+const output = {
+    title: 'Vector databases',
+    summary: '',
+    items: [
+        { name: 'pgvector', url: 'https://a.com', tags: ['sql'] },
+        { name: 'qdrant', url: 'https://b.com', tags: ['rust', 'grpc'] },
+    ],
+    meta: { 'x-source': 'crawler', pages: 12 },
+};
+
+const resolve = (source: string) => evaluateStepReference(parseStepReference(source), output);
+
+describe('Step references', () => {
+    it('should select keys, indexes and wildcards', () => {
+        expect(resolve('{{steps.research.output}}')).toEqual(output);
+        expect(resolve('{{steps.research.output.items[0].name}}')).toBe('pgvector');
+        expect(resolve('{{steps.research.output.items[-1].url}}')).toBe('https://b.com');
+        expect(resolve('{{steps.research.output.items[*].url}}')).toEqual(['https://a.com', 'https://b.com']);
+        expect(resolve('{{steps.research.output.items[*].tags[*]}}')).toEqual(['sql', 'rust', 'grpc']);
+        expect(resolve("{{steps.research.output.meta['x-source']}}")).toBe('crawler');
+        expect(resolve('{{steps.research.output.items[5].name}}')).toBeUndefined();
+    });
+
+    it('should apply filters left to right', () => {
+        expect(resolve("{{steps.research.output.items[*].name | join: ' + '}}")).toBe('pgvector + qdrant');
+        expect(resolve('{{steps.research.output.items | length}}')).toBe(2);
+        expect(resolve('{{steps.research.output.items | first | json}}')).toBe('{"name":"pgvector","url":"https://a.com","tags":["sql"]}');
+        expect(resolve('{{steps.research.output.items[*].name | last | upper}}')).toBe('QDRANT');
+        expect(resolve('{{steps.research.output.meta | keys | join}}')).toBe('x-source, pages');
+    });
+
+    it('should fall back to defaults for missing or empty values', () => {
+        expect(resolve("{{steps.research.output.missing | default: 'n/a'}}")).toBe('n/a');
+        expect(resolve('{{steps.research.output.summary | default: "none" | upper}}')).toBe('NONE');
+        expect(resolve('{{steps.research.output.meta.pages | default: 0}}')).toBe(12);
+        expect(resolve("{{steps.research.output.title | default: 'a | b'}}")).toBe('Vector databases');
+    });
+
+    it('should report syntax errors', () => {
+        expect(() => parseStepReference('{{steps.a.output | exec}}')).toThrow("Unknown filter 'exec'");
+        expect(() => parseStepReference('{{steps.a.output | default}}')).toThrow("Filter 'default' needs an argument");
+        expect(() => parseStepReference('{{steps.a.output | join: x}}')).toThrow("Invalid argument 'x'");
+        expect(() => parseStepReference('{{steps.a.output.items[x]}}')).toThrow("Invalid selector '[x]'");
+        expect(() => parseStepReference('{{steps.a.status}}')).toThrow('Expected steps.ID.output');
+    });
+
+    it('should surface invalid references during formula validation', () => {
+        const formula: Formula = {
+            formula: 'selectors',
+            description: 'Selectors',
+            steps: [
+                { id: 'a', title: 'A', description: 'A' },
+                { id: 'b', title: 'B', description: 'B', needs: ['a'], context: { names: '{{steps.a.output.items[*].name | shout}}' } },
+            ],
+        };
+        const issues = validateFormula(formula);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ step: 'b' });
+        expect(issues[0]?.message).toStartWith("context.names: Unknown filter 'shout'");
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Bead, BeadsClient } from '../../src/core/beads';
+import { CostLedger } from '../../src/core/costs';
+import { WorkQueue } from '../../src/core/queue';
+import { RetryService } from '../../src/services/retry';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_retry_queue.sqlite');
+
+describe('RetryService', () => {
+    let queue: WorkQueue;
+    let store: Map<string, Bead>;
+    let beads: BeadsClient;
+    let ledger: CostLedger;
+
+    const bead = (overrides: Partial<Bead>): Bead => ({
+        id: 'bead', title: 'Bead', status: 'open', priority: 2, created_at: '', updated_at: '', labels: [], ...overrides,
+    });
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+        ledger = new CostLedger(':memory:');
+
+        store = new Map([
+            ['mol', bead({ id: 'mol', type: 'epic' })],
+            ['broken', bead({ id: 'broken', parent: 'mol', status: 'done', labels: ['failed', 'agent-error', 'step:a'] })],
+            ['exhausted', bead({ id: 'exhausted', parent: 'mol', status: 'in_progress' })],
+            ['healthy', bead({ id: 'healthy', parent: 'mol', status: 'done' })],
+        ]);
+
+        beads = {
+            get: mock(async (id: string) => store.get(id)),
+            getDescendants: mock(async () => [...store.values()].filter((b) => b.parent === 'mol')),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => {
+                const current = store.get(id)!;
+                const labels = (current.labels || []).filter((l) => !(changes.remove_labels || []).includes(l));
+                store.set(id, {
+                    ...current,
+                    status: changes.status ?? current.status,
+                    context: changes.context ?? current.context,
+                    labels,
+                });
+                return store.get(id);
+            }),
+            addComment: mock(async () => ''),
+        } as unknown as BeadsClient;
+    });
+
+    afterEach(async () => {
+        queue.close();
+        ledger.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    it('should reopen a failed bead, clear failure labels and archive tickets', async () => {
+        queue.enqueue('broken', 1, 'worker');
+        const ticket = queue.claim('worker-1', 'worker')!;
+        queue.complete(ticket.id, { summary: 'bad output' });
+
+        const result = await new RetryService(beads, queue, ledger).retry('broken', { instructions: 'Use the v2 API' });
+
+        expect(result.clearedLabels).toEqual(['failed', 'agent-error']);
+        expect(result.archivedTickets).toBe(1);
+        expect(store.get('broken')?.status).toBe('open');
+        expect(store.get('broken')?.labels).toEqual(['step:a']);
+        expect(store.get('broken')?.context?.custom_instructions).toBe('Use the v2 API');
+        expect(queue.getLatestTicket('broken')).toBeNull();
+        expect(queue.getOutput('broken')).toBeNull();
+    });
+
+    it('should refuse to retry a bead that is being processed', async () => {
+        queue.enqueue('broken', 1, 'worker');
+        queue.claim('worker-1', 'worker');
+
+        expect(new RetryService(beads, queue, ledger).retry('broken')).rejects.toThrow('currently being processed');
+    });
+
+    it('should retry only failed beads of a molecule', async () => {
+        // Permanently failed ticket without failure labels
+        queue.enqueue('exhausted', 1, 'worker');
+        const ticket = queue.claim('worker-1', 'worker')!;
+        queue.fail(ticket.id, true);
+
+        const results = await new RetryService(beads, queue, ledger).retryFailedInMolecule('mol');
+
+        expect(results.map((r) => r.beadId).sort()).toEqual(['broken', 'exhausted']);
+        expect(store.get('exhausted')?.status).toBe('open');
+        expect(store.get('healthy')?.status).toBe('done');
+    });
+
+    it('should give a budget-exceeded bead a fresh budget', async () => {
+        store.set('broken', bead({ id: 'broken', parent: 'mol', status: 'done', labels: ['failed', 'budget-exceeded'] }));
+        const spend = (cost: number) => ledger.record({
+            bead_id: 'broken', molecule_id: 'mol', role: 'worker', provider: 'openai', model: 'gpt-4o', input_tokens: 1, output_tokens: 1, cost,
+        });
+        const budget = { bead: 1, molecule: 5 };
+        spend(6);
+        expect(() => ledger.checkBudget('broken', 'mol', budget)).toThrow('Bead broken spent $6.0000');
+
+        await new RetryService(beads, queue, ledger).retry('broken');
+
+        expect(() => ledger.checkBudget('broken', 'mol', budget)).not.toThrow();
+        spend(0.5);
+        expect(() => ledger.checkBudget('broken', 'mol', budget)).not.toThrow();
+        spend(0.75);
+        expect(() => ledger.checkBudget('broken', 'mol', budget)).toThrow('Bead broken spent $1.2500, over its budget of $1.00');
+        // Reports keep the whole spend
+        expect(ledger.getBeadCost('broken')).toBe(7.25);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Bead, BeadsClient } from '../../src/core/beads';
+import { WorkQueue } from '../../src/core/queue';
+import { StatusService, formatStatus } from '../../src/services/status';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_status_queue.sqlite');
+
+const bead = (overrides: Partial<Bead>): Bead => ({
+    id: 'bead',
+    title: 'Bead',
+    status: 'open',
+    priority: 2,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+});
+
+describe('StatusService', () => {
+    let queue: WorkQueue;
+    let beads: BeadsClient;
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+        beads = {
+            getAll: mock(async () => [
+                bead({ id: 'mol-1', title: '[Molecule] Release', type: 'epic' }),
+                bead({ id: 'step-1', title: 'Build', parent: 'mol-1', status: 'done', labels: ['step:build', 'formula:release'] }),
+                bead({ id: 'step-2', title: 'Deploy', parent: 'mol-1', status: 'in_progress', labels: ['step:deploy', 'formula:release'] }),
+                bead({ id: 'sub-1', title: 'Delegated', parent: 'step-2' }),
+                bead({ id: 'mol-2', title: '[Molecule] Other', type: 'epic' }),
+                bead({ id: 'loose', title: 'Standalone task' }),
+            ]),
+        } as unknown as BeadsClient;
+    });
+
+    afterEach(async () => {
+        queue.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    it('should join molecules with their steps and tickets', async () => {
+        queue.enqueue('step-1', 1, 'worker');
+        const done = queue.claim('worker-1', 'worker');
+        queue.complete(done!.id, { summary: 'Built the app' });
+
+        queue.enqueue('step-2', 1, 'worker');
+        const running = queue.claim('worker-2', 'worker');
+        queue.fail(running!.id, false);
+
+        const molecules = await new StatusService(beads, queue).getMolecules();
+        expect(molecules.map((m) => m.id)).toEqual(['mol-1', 'mol-2']);
+
+        const [release] = molecules;
+        expect(release?.formula).toBe('release');
+        expect(release?.progress).toEqual({ done: 1, total: 3 });
+
+        const build = release?.steps.find((s) => s.id === 'step-1');
+        expect(build?.stepId).toBe('build');
+        expect(build?.ticket?.status).toBe('completed');
+        expect(build?.lastOutput).toBe('Built the app');
+
+        const deploy = release?.steps.find((s) => s.id === 'step-2');
+        expect(deploy?.ticket?.active).toBe(true);
+        expect(deploy?.ticket?.role).toBe('worker');
+        expect(deploy?.ticket?.retry_count).toBe(1);
+
+        const delegated = release?.steps.find((s) => s.id === 'sub-1');
+        expect(delegated?.depth).toBe(1);
+    });
+
+    it('should filter by molecule and reject unknown ids', async () => {
+        const service = new StatusService(beads, queue);
+        const molecules = await service.getMolecules('mol-2');
+        expect(molecules).toHaveLength(1);
+        expect(molecules[0]?.steps).toHaveLength(0);
+
+        expect(service.getMolecules('missing')).rejects.toThrow('Molecule not found: missing');
+    });
+
+    it('should list sub-formula molecules under their parent only', async () => {
+        beads = {
+            getAll: mock(async () => [
+                bead({ id: 'mol-1', title: '[Molecule] Release', type: 'epic' }),
+                bead({ id: 'step-1', title: 'Test', parent: 'mol-1', labels: ['step:test', 'subformula'] }),
+                bead({ id: 'nested', title: '[Molecule] Test suite', parent: 'mol-1', type: 'epic' }),
+                bead({ id: 'step-2', title: 'Unit tests', parent: 'nested', labels: ['step:unit'] }),
+            ]),
+        } as unknown as BeadsClient;
+        const service = new StatusService(beads, queue);
+
+        const molecules = await service.getMolecules();
+        expect(molecules.map((m) => m.id)).toEqual(['mol-1']);
+        expect(molecules[0]?.steps.map((s) => [s.id, s.depth])).toEqual([['step-1', 0], ['nested', 0], ['step-2', 1]]);
+
+        const nested = await service.getMolecules('nested');
+        expect(nested.map((m) => m.id)).toEqual(['nested']);
+        expect(nested[0]?.steps.map((s) => s.id)).toEqual(['step-2']);
+    });
+
+    it('should format a readable report', async () => {
+        const molecules = await new StatusService(beads, queue).getMolecules('mol-1');
+        const report = formatStatus(molecules);
+        expect(report).toContain('[Molecule] Release (mol-1) [release] — 1/3 done');
+        expect(report).toContain('Deploy (step-2) <deploy> [in_progress] no ticket');
+        expect(formatStatus([])).toBe('No molecules found.');
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { type BackoffPolicy, WorkQueue } from '../../src/core/queue';
+
+const TEST_DB = join(process.cwd(), 'tests/temp_ticket_attempts.sqlite');
+const NO_BACKOFF: BackoffPolicy = { strategy: 'fixed', baseMs: 0, maxMs: 0 };
+
+describe('Ticket attempts', () => {
+    let queue: WorkQueue;
+
+    beforeEach(async () => {
+        await rm(TEST_DB, { force: true });
+        queue = new WorkQueue(TEST_DB);
+    });
+
+    afterEach(async () => {
+        queue.close();
+        await rm(TEST_DB, { force: true });
+    });
+
+    it('should record one attempt per claim with its outcome', () => {
+        queue.enqueue('bead-1', 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        const ticket = queue.claim('worker-1', 'worker')!;
+        queue.recordUsage(ticket.id, { inputTokens: 100, outputTokens: 20, totalTokens: 120 });
+        expect(queue.fail(ticket.id, false, 3, NO_BACKOFF, 'Tool crashed')).toBe(true);
+
+        expect(queue.claim('worker-2', 'worker')?.id).toBe(ticket.id);
+        queue.complete(ticket.id, { summary: 'Done' });
+
+        const attempts = queue.getAttempts('bead-1');
+        expect(attempts.map((a) => [a.attempt, a.assignee_id, a.outcome, a.error, a.total_tokens])).toEqual([
+            [1, 'worker-1', 'failed', 'Tool crashed', 120],
+            [2, 'worker-2', 'completed', null, null],
+        ]);
+        expect(attempts[0]?.input_tokens).toBe(100);
+        expect(attempts[1]?.output).toEqual({ summary: 'Done' });
+        expect(attempts.every((a) => a.ended_at !== null && a.ended_at >= a.started_at)).toBe(true);
+        expect(queue.getAttempts(ticket.id)).toEqual(attempts);
+    });
+
+    it('should mark stalled and cancelled attempts', async () => {
+        queue.enqueue('bead-1', 1, 'worker');
+        queue.enqueue('bead-2', 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        const first = queue.claim('worker-1', 'worker')!;
+        await Bun.sleep(5);
+        expect(queue.releaseStalled(1)).toBe(1);
+
+        // biome-ignore lint/style/noNonNullAssertion: test
+        const second = queue.claim('worker-1', 'worker')!;
+        expect(second.bead_id).not.toBe(first.bead_id);
+        queue.cancelBead(second.bead_id);
+
+        expect(queue.getAttempts(first.bead_id)).toMatchObject([{ outcome: 'stalled', error: 'No heartbeat for 0s' }]);
+        expect(queue.getAttempts(second.bead_id)).toMatchObject([{ outcome: 'cancelled', error: null }]);
+        expect(queue.getAttempts('bead-3')).toEqual([]);
+    });
+
+    it('should end the attempt of a force-completed ticket', () => {
+        queue.enqueue('bead-1', 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        const ticket = queue.claim('worker-1', 'worker')!;
+
+        expect(queue.forceComplete(ticket.id, 'Worker vanished')).toBe(true);
+        expect(queue.forceComplete(ticket.id, 'Worker vanished')).toBe(false);
+
+        expect(queue.getTicket(ticket.id)?.status).toBe('completed');
+        expect(queue.getActiveTicket('bead-1')).toBeNull();
+        expect(queue.getAttempts('bead-1')).toMatchObject([{ outcome: 'completed', error: 'Worker vanished' }]);
+        expect(queue.getAttempts('bead-1')[0]?.ended_at).not.toBeNull();
+    });
+
+    it('should drop attempts when a bead is reset', () => {
+        queue.enqueue('bead-1', 1, 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        queue.complete(queue.claim('worker-1', 'worker')!.id);
+        queue.resetBead('bead-1');
+        expect(queue.getAttempts('bead-1')).toEqual([]);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'bun:test';
+import { type Formula, FormulaVariableSchema, validateFormula } from '../../src/core/formula';
+import { coerceVariable, resolveVariables } from '../../src/core/variables';
+
+// biome-ignore lint/suspicious/noExplicitAny: schema input
+const variable = (config: any) => FormulaVariableSchema.parse({ description: 'test', ...config });
+
+describe('coerceVariable', () => {
+    it('should coerce CLI strings to the declared type', () => {
+        expect(coerceVariable('n', variable({ type: 'number' }), '42')).toBe(42);
+        expect(coerceVariable('b', variable({ type: 'boolean' }), 'yes')).toBe(true);
+        expect(coerceVariable('l', variable({ type: 'list' }), 'a, b,c')).toEqual(['a', 'b', 'c']);
+        expect(coerceVariable('l', variable({ type: 'list' }), '["x", 1]')).toEqual(['x', 1]);
+        expect(coerceVariable('j', variable({ type: 'json' }), '{"a":1}')).toEqual({ a: 1 });
+        expect(coerceVariable('s', variable({}), 'a=b')).toBe('a=b');
+    });
+
+    it('should keep native values from JSON or TOML', () => {
+        expect(coerceVariable('n', variable({ type: 'number' }), 3)).toBe(3);
+        expect(coerceVariable('l', variable({ type: 'list' }), ['a'])).toEqual(['a']);
+        expect(coerceVariable('b', variable({ type: 'boolean' }), false)).toBe(false);
+    });
+
+    it('should enforce choices, pattern and bounds', () => {
+        const env = variable({ type: 'enum', choices: ['dev', 'prod'] });
+        expect(coerceVariable('env', env, 'prod')).toBe('prod');
+        expect(() => coerceVariable('env', env, 'qa')).toThrow('env: expected one of dev, prod, got "qa"');
+
+        expect(() => coerceVariable('n', variable({ type: 'number' }), 'abc')).toThrow('expected a number');
+        expect(() => coerceVariable('n', variable({ type: 'number', max: 5 }), '6')).toThrow('at most 5');
+        expect(() => coerceVariable('v', variable({ pattern: '^v\\d+$' }), 'x1')).toThrow('must match');
+        expect(() => coerceVariable('l', variable({ type: 'list', min: 2 }), 'a')).toThrow('list length must be at least 2');
+    });
+
+    it('should require choices for enum variables', () => {
+        expect(() => variable({ type: 'enum' })).toThrow();
+    });
+});
+
+describe('resolveVariables', () => {
+    const formula: Formula = {
+        formula: 'typed',
+        description: 'Typed',
+        vars: {
+            env: variable({ type: 'enum', choices: ['dev', 'prod'], required: true }),
+            replicas: variable({ type: 'number', default: 2 }),
+            services: variable({ type: 'list', default: 'api, web' }),
+        },
+        steps: [{ id: 'a', title: 'a', description: 'a' }],
+    };
+
+    it('should apply defaults and pass through undeclared inputs', () => {
+        const { values, errors } = resolveVariables(formula, { env: 'dev', extra: 'x' });
+        expect(errors).toEqual([]);
+        expect(values).toEqual({ env: 'dev', replicas: 2, services: ['api', 'web'], extra: 'x' });
+    });
+
+    it('should collect every error', () => {
+        const { errors } = resolveVariables(formula, { replicas: 'many' });
+        expect(errors).toEqual([
+            'env: missing required variable',
+            'replicas: expected a number, got "many"',
+        ]);
+    });
+
+    it('should report invalid defaults during validation', () => {
+        const broken: Formula = {
+            ...formula,
+            vars: { replicas: variable({ type: 'number', default: 'lots' }) },
+        };
+        expect(validateFormula(broken)[0]?.message).toBe('vars.replicas: expected a number, got "lots" (default)');
+    });
+});
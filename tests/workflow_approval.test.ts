@@ -0,0 +1,205 @@
+import { describe, it, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import { join } from 'node:path';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { FormulaRegistry, setFormulaRegistry } from '../src/core/formula';
+import { WorkflowEngine } from '../src/services/workflow-engine';
+import { Conductor } from '../src/services/conductor';
+import { ApprovalService } from '../src/services/approval';
+import { setBeadsInstance } from '../src/core/beads';
+import { setQueueInstance, WorkQueue } from '../src/core/queue';
+import { setConfig, resetConfig } from '../src/config';
+import { clearGlobalSingleton } from '../src/core/registry';
+
+// Mock getAgentModel to return dummy models
+mock.module('../src/core/llm', () => ({
+    getAgentModel: (role: string) => {
+        if (!['router', 'worker', 'gatekeeper', 'supervisor'].includes(role)) {
+            throw new Error(`Invalid role: ${role}`);
+        }
+        return {
+            specificationVersion: 'v2',
+            provider: 'mock',
+            modelId: 'mock-model',
+            doGenerate: async () => ({
+                content: [{ type: 'text', text: 'Mocked Plan' }],
+                finishReason: 'stop',
+                usage: { promptTokens: 0, completionTokens: 0 }
+            })
+        };
+    }
+}));
+
+describe('Approval Gates', () => {
+    const testRoot = join(process.cwd(), '.test_workflow_approval');
+    const formulasDir = join(testRoot, 'formulas');
+
+    let engine: WorkflowEngine;
+    let queue: WorkQueue;
+    // Conductors start their worker hooks when constructed
+    let conductor: Conductor | undefined;
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    let beadsMock: any;
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    let store: Map<string, any>;
+
+    beforeEach(async () => {
+        setConfig({
+            providers: {
+                ollama: { baseURL: 'http://localhost:11434/v1', apiKey: 'ollama' }
+            },
+            agents: {
+                router: { provider: 'ollama', model: 'llama3' },
+                worker: { provider: 'ollama', model: 'llama3' },
+                supervisor: { provider: 'ollama', model: 'llama3' },
+                gatekeeper: { provider: 'ollama', model: 'llama3' }
+            },
+            worker: { timeout: 300, maxRetries: 3, costLimit: 1.0 },
+            beads: { path: '.beads', binary: 'bd' }
+        });
+        await rm(testRoot, { recursive: true, force: true });
+        await mkdir(formulasDir, { recursive: true });
+
+        const formulaContent = `
+formula = "guarded_deploy"
+description = "Deploy after sign-off"
+
+[[steps]]
+id = "build"
+title = "Build"
+description = "Build the release"
+
+[[steps]]
+id = "signoff"
+title = "Sign-off"
+description = "Approve the production deploy"
+type = "approval"
+needs = ["build"]
+
+[[steps]]
+id = "deploy"
+title = "Deploy"
+description = "Ship it"
+needs = ["signoff"]
+
+[[steps]]
+id = "notify"
+title = "Notify"
+description = "Tell the team"
+needs = ["deploy"]
+`;
+        await writeFile(join(formulasDir, 'guarded_deploy.toml'), formulaContent);
+
+        const registry = new FormulaRegistry(formulasDir);
+        await registry.loadAll();
+        setFormulaRegistry(registry);
+        engine = new WorkflowEngine(registry);
+
+        queue = new WorkQueue(join(testRoot, 'queue.sqlite'));
+        setQueueInstance(queue);
+
+        store = new Map();
+        beadsMock = {
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            create: mock(async (title: string, options: any) => {
+                const id = `bd-${Math.random().toString(36).substr(2, 5)}`;
+                const bead = { id, title, status: 'open', labels: [], ...options };
+                store.set(id, bead);
+                return bead;
+            }),
+            get: mock(async (id: string) => store.get(id)),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => {
+                const current = store.get(id);
+                const updated = { ...current, ...changes };
+                if (changes.labels) updated.labels = [...new Set([...current.labels, ...changes.labels])];
+                if (changes.remove_labels) updated.labels = current.labels.filter((l: string) => !changes.remove_labels.includes(l));
+                store.set(id, updated);
+                return updated;
+            }),
+            addDependency: mock(async (child: string, parent: string) => {
+                const c = store.get(child);
+                c.blockers = [...(c.blockers || []), parent];
+            }),
+            list: mock(async (status: string) => Array.from(store.values()).filter(b => b.status === status)),
+            addComment: mock(async () => ''),
+            ready: mock(async () => Array.from(store.values()).filter(b =>
+                b.status === 'open' && (b.blockers || []).every((id: string) => store.get(id)?.status === 'done'))),
+        };
+        setBeadsInstance(beadsMock);
+    });
+
+    afterEach(async () => {
+        await conductor?.stop();
+        conductor = undefined;
+        queue.close();
+        await rm(testRoot, { recursive: true, force: true });
+    });
+
+    afterAll(async () => {
+        clearGlobalSingleton('beads_client');
+        clearGlobalSingleton('work_queue');
+        clearGlobalSingleton('formula_registry');
+        resetConfig();
+    });
+
+    const byTitle = (title: string) => Array.from(store.values()).find(b => b.title === title);
+
+    const cycle = async () => {
+        conductor ??= new Conductor(beadsMock);
+        // @ts-expect-error - access private for test
+        await conductor.cycleRouter();
+    };
+
+    const finishBuild = async () => {
+        await engine.instantiateFormula('guarded_deploy', {});
+        await beadsMock.update(byTitle('Build').id, { status: 'done', acceptance_test: 'built' });
+    };
+
+    it('should label approval steps and never route them', async () => {
+        await finishBuild();
+        const gate = byTitle('Sign-off');
+        expect(gate.labels).toContain('gate:human');
+
+        await cycle();
+
+        expect(store.get(gate.id).status).toBe('open');
+        expect(queue.getActiveTicket(gate.id)).toBeNull();
+        expect(byTitle('Deploy').status).toBe('open');
+    });
+
+    it('should close the gate on approval and record the decision', async () => {
+        await finishBuild();
+        const gate = byTitle('Sign-off');
+
+        await new ApprovalService(beadsMock).approve(gate.id, 'LGTM');
+
+        expect(store.get(gate.id).status).toBe('done');
+        expect(store.get(gate.id).labels).toContain('approved');
+        expect(beadsMock.addComment).toHaveBeenCalledWith(gate.id, 'Approved: LGTM');
+    });
+
+    it('should fail the gate on denial and skip everything behind it', async () => {
+        await finishBuild();
+        const gate = byTitle('Sign-off');
+
+        await new ApprovalService(beadsMock).deny(gate.id, 'Freeze week');
+        expect(store.get(gate.id).labels).toEqual(expect.arrayContaining(['failed', 'gate:denied']));
+        expect(beadsMock.addComment).toHaveBeenCalledWith(gate.id, 'Denied: Freeze week');
+
+        await cycle();
+        expect(byTitle('Deploy').status).toBe('done');
+        expect(byTitle('Deploy').acceptance_test).toBe(`Skipped: approval denied (${gate.id})`);
+
+        await cycle();
+        expect(byTitle('Notify').status).toBe('done');
+        expect(byTitle('Notify').labels).toContain('gate:denied');
+    });
+
+    it('should refuse decisions on beads that are not pending gates', async () => {
+        await engine.instantiateFormula('guarded_deploy', {});
+        const approvals = new ApprovalService(beadsMock);
+
+        await expect(approvals.approve(byTitle('Build').id)).rejects.toThrow('is not an approval gate');
+        await expect(approvals.approve(byTitle('Sign-off').id)).rejects.toThrow('is still waiting for');
+    });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import { join } from 'node:path';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { FormulaRegistry, setFormulaRegistry, validateFormula } from '../src/core/formula';
+import { WorkflowEngine } from '../src/services/workflow-engine';
+import { Conductor } from '../src/services/conductor';
+import { getPiper } from '../src/services/piper';
+import { setBeadsInstance } from '../src/core/beads';
+import { setQueueInstance, WorkQueue } from '../src/core/queue';
+import { setConfig, resetConfig } from '../src/config';
+import { clearGlobalSingleton } from '../src/core/registry';
+
+// Mock getAgentModel to return dummy models
+mock.module('../src/core/llm', () => ({
+    getAgentModel: (role: string) => {
+        if (!['router', 'worker', 'gatekeeper', 'supervisor'].includes(role)) {
+            throw new Error(`Invalid role: ${role}`);
+        }
+        return {
+            specificationVersion: 'v2',
+            provider: 'mock',
+            modelId: 'mock-model',
+            doGenerate: async () => ({
+                content: [{ type: 'text', text: 'Mocked Plan' }],
+                finishReason: 'stop',
+                usage: { promptTokens: 0, completionTokens: 0 }
+            })
+        };
+    }
+}));
+
+describe('Dynamic Fan-out', () => {
+    const testRoot = join(process.cwd(), '.test_workflow_fanout');
+    const formulasDir = join(testRoot, 'formulas');
+
+    let engine: WorkflowEngine;
+    let queue: WorkQueue;
+    // Conductors start their worker hooks when constructed
+    let conductor: Conductor | undefined;
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    let beadsMock: any;
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    let store: Map<string, any>;
+
+    beforeEach(async () => {
+        setConfig({
+            providers: {
+                ollama: { baseURL: 'http://localhost:11434/v1', apiKey: 'ollama' }
+            },
+            agents: {
+                router: { provider: 'ollama', model: 'llama3' },
+                worker: { provider: 'ollama', model: 'llama3' },
+                supervisor: { provider: 'ollama', model: 'llama3' },
+                gatekeeper: { provider: 'ollama', model: 'llama3' }
+            },
+            worker: { timeout: 300, maxRetries: 3, costLimit: 1.0 },
+            beads: { path: '.beads', binary: 'bd' }
+        });
+        await rm(testRoot, { recursive: true, force: true });
+        await mkdir(formulasDir, { recursive: true });
+
+        const formulaContent = `
+formula = "migrate"
+description = "Migrate files"
+
+[[steps]]
+id = "discover"
+title = "Find files"
+description = "List files to migrate"
+
+[[steps]]
+id = "migrate"
+title = "Migrate {{file}}"
+description = "Migrate {{file}}"
+needs = ["discover"]
+for = { items = "{{steps.discover.output.files}}", as = "file" }
+
+[[steps]]
+id = "report"
+title = "Report"
+description = "Summarize"
+needs = ["migrate"]
+context = { results = "{{steps.migrate.output}}" }
+`;
+        await writeFile(join(formulasDir, 'migrate.toml'), formulaContent);
+
+        const registry = new FormulaRegistry(formulasDir);
+        await registry.loadAll();
+        setFormulaRegistry(registry);
+        engine = new WorkflowEngine(registry);
+
+        queue = new WorkQueue(join(testRoot, 'queue.sqlite'));
+        setQueueInstance(queue);
+
+        store = new Map();
+        beadsMock = {
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            create: mock(async (title: string, options: any) => {
+                const id = `bd-${Math.random().toString(36).substr(2, 5)}`;
+                const bead = { id, title, status: 'open', labels: [], ...options };
+                store.set(id, bead);
+                return bead;
+            }),
+            get: mock(async (id: string) => store.get(id)),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => {
+                const current = store.get(id);
+                const updated = { ...current, ...changes };
+                if (changes.labels) updated.labels = [...new Set([...current.labels, ...changes.labels])];
+                if (changes.remove_labels) updated.labels = current.labels.filter((l: string) => !changes.remove_labels.includes(l));
+                store.set(id, updated);
+                return updated;
+            }),
+            addDependency: mock(async (child: string, parent: string) => {
+                const c = store.get(child);
+                c.blockers = [...(c.blockers || []), parent];
+            }),
+            list: mock(async (status: string) => Array.from(store.values()).filter(b => b.status === status)),
+            ready: mock(async () => Array.from(store.values()).filter(b =>
+                b.status === 'open' && (b.blockers || []).every((id: string) => store.get(id)?.status === 'done'))),
+        };
+        setBeadsInstance(beadsMock);
+    });
+
+    afterEach(async () => {
+        await conductor?.stop();
+        conductor = undefined;
+        queue.close();
+        await rm(testRoot, { recursive: true, force: true });
+    });
+
+    afterAll(async () => {
+        clearGlobalSingleton('beads_client');
+        clearGlobalSingleton('work_queue');
+        clearGlobalSingleton('formula_registry');
+        resetConfig();
+    });
+
+    const finish = async (beadId: string, output: unknown) => {
+        queue.enqueue(beadId, 1, 'worker');
+        const ticket = queue.claim('worker-1', 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        queue.complete(ticket!.id, output);
+        await beadsMock.update(beadId, { status: 'done' });
+    };
+
+    const byTitle = (title: string) => Array.from(store.values()).find(b => b.title === title);
+
+    it('should plan a single template bead', () => {
+        const plan = engine.planFormula('migrate', {});
+        expect(plan.steps.map((s) => s.key)).toEqual(['discover', 'migrate', 'report']);
+        expect(plan.steps[1]?.fanOut).toBe('{{steps.discover.output.files}}');
+    });
+
+    it('should expand items once the upstream output exists and aggregate their outputs', async () => {
+        await engine.instantiateFormula('migrate', {});
+        const template = byTitle('Migrate {{file}}');
+        expect(template.labels).toContain('fanout');
+
+        await finish(byTitle('Find files').id, { files: ['a.ts', 'b.ts'] });
+        conductor = new Conductor(beadsMock);
+        // @ts-expect-error - access private for test
+        await conductor.cycleRouter();
+
+        const a = byTitle('Migrate a.ts');
+        const b = byTitle('Migrate b.ts');
+        expect(a.context.file).toBe('a.ts');
+        expect(a.labels).toContain('step:migrate');
+        expect(a.labels).not.toContain('molecule:cooking');
+        expect(store.get(template.id).blockers).toEqual(expect.arrayContaining([a.id, b.id]));
+        expect(store.get(template.id).status).toBe('open');
+
+        await finish(b.id, { migrated: 'b.ts' });
+        await finish(a.id, { migrated: 'a.ts' });
+        // @ts-expect-error - access private for test
+        await conductor.cycleRouter();
+
+        expect(store.get(template.id).status).toBe('done');
+        const outputs = await getPiper().getStepOutputs(byTitle('Report'), ['migrate']);
+        expect(outputs.migrate?.output).toEqual([{ migrated: 'a.ts' }, { migrated: 'b.ts' }]);
+    });
+
+    it('should fail the template when the reference is not a list', async () => {
+        await engine.instantiateFormula('migrate', {});
+        await finish(byTitle('Find files').id, { files: 'none' });
+
+        // @ts-expect-error - access private for test
+        await (conductor = new Conductor(beadsMock)).cycleRouter();
+
+        const template = byTitle('Migrate {{file}}');
+        expect(template.status).toBe('done');
+        expect(template.labels).toContain('failed');
+    });
+
+    it('should reject fan-out items that are not a single step reference', () => {
+        const issues = validateFormula({
+            formula: 'bad',
+            description: 'Bad',
+            steps: [
+                { id: 'a', title: 'a', description: 'a' },
+                { id: 'b', title: 'b', description: 'b', needs: ['a'], for: { items: 'x, {{steps.a.output}}', as: 'i' } },
+                { id: 'c', title: 'c', description: 'c', for: { items: '{{steps.a.output}}', as: 'i' } },
+            ],
+        });
+        expect(issues.map((i) => i.message)).toEqual([
+            "for.items must be a single {{steps.ID.output...}} reference, got 'x, {{steps.a.output}}'",
+            "for.items references step 'a', which is not upstream (it must be reachable through needs)",
+        ]);
+    });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import { join } from 'node:path';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { FormulaRegistry, setFormulaRegistry } from '../src/core/formula';
+import { WorkflowEngine } from '../src/services/workflow-engine';
+import { Conductor } from '../src/services/conductor';
+import { SubFormulaService } from '../src/services/subformula';
+import { getPiper } from '../src/services/piper';
+import { setBeadsInstance } from '../src/core/beads';
+import { setQueueInstance, WorkQueue } from '../src/core/queue';
+import { setConfig, resetConfig } from '../src/config';
+import { clearGlobalSingleton } from '../src/core/registry';
+
+// Mock getAgentModel to return dummy models
+mock.module('../src/core/llm', () => ({
+    getAgentModel: (role: string) => {
+        if (!['router', 'worker', 'gatekeeper', 'supervisor'].includes(role)) {
+            throw new Error(`Invalid role: ${role}`);
+        }
+        return {
+            specificationVersion: 'v2',
+            provider: 'mock',
+            modelId: 'mock-model',
+            doGenerate: async () => ({
+                content: [{ type: 'text', text: 'Mocked Plan' }],
+                finishReason: 'stop',
+                usage: { promptTokens: 0, completionTokens: 0 }
+            })
+        };
+    }
+}));
+
+describe('Sub-formulas', () => {
+    const testRoot = join(process.cwd(), '.test_workflow_subformula');
+    const formulasDir = join(testRoot, 'formulas');
+
+    let registry: FormulaRegistry;
+    let engine: WorkflowEngine;
+    let queue: WorkQueue;
+    // Conductors start their worker hooks when constructed
+    let conductor: Conductor | undefined;
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    let beadsMock: any;
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    let store: Map<string, any>;
+
+    beforeEach(async () => {
+        setConfig({
+            providers: {
+                ollama: { baseURL: 'http://localhost:11434/v1', apiKey: 'ollama' }
+            },
+            agents: {
+                router: { provider: 'ollama', model: 'llama3' },
+                worker: { provider: 'ollama', model: 'llama3' },
+                supervisor: { provider: 'ollama', model: 'llama3' },
+                gatekeeper: { provider: 'ollama', model: 'llama3' }
+            },
+            worker: { timeout: 300, maxRetries: 3, costLimit: 1.0 },
+            beads: { path: '.beads', binary: 'bd' }
+        });
+        await rm(testRoot, { recursive: true, force: true });
+        await mkdir(formulasDir, { recursive: true });
+
+        await writeFile(join(formulasDir, 'build_pkg.toml'), `
+formula = "build_pkg"
+description = "Build {{pkg}}"
+
+[vars.pkg]
+description = "Package"
+required = true
+
+[[steps]]
+id = "compile"
+title = "Compile {{pkg}}"
+description = "Compile"
+
+[[steps]]
+id = "package"
+title = "Package {{pkg}}"
+description = "Package"
+needs = ["compile"]
+`);
+        await writeFile(join(formulasDir, 'release.toml'), `
+formula = "release"
+description = "Release"
+
+[[steps]]
+id = "discover"
+title = "Pick package"
+description = "Pick the package to release"
+
+[[steps]]
+id = "build"
+title = "Build package"
+description = "Nested build"
+needs = ["discover"]
+uses = "build_pkg"
+with = { pkg = "{{steps.discover.output.name}}" }
+
+[[steps]]
+id = "publish"
+title = "Publish"
+description = "Publish"
+needs = ["build"]
+context = { artifact = "{{steps.build.output.package}}" }
+`);
+
+        registry = new FormulaRegistry(formulasDir);
+        await registry.loadAll();
+        setFormulaRegistry(registry);
+        engine = new WorkflowEngine(registry);
+
+        queue = new WorkQueue(join(testRoot, 'queue.sqlite'));
+        setQueueInstance(queue);
+
+        store = new Map();
+        beadsMock = {
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            create: mock(async (title: string, options: any) => {
+                const id = `bd-${Math.random().toString(36).substr(2, 5)}`;
+                const bead = { id, title, status: 'open', labels: [], ...options };
+                store.set(id, bead);
+                return bead;
+            }),
+            get: mock(async (id: string) => store.get(id)),
+            // biome-ignore lint/suspicious/noExplicitAny: mock
+            update: mock(async (id: string, changes: any) => {
+                const current = store.get(id);
+                const updated = { ...current, ...changes };
+                if (changes.labels) updated.labels = [...new Set([...current.labels, ...changes.labels])];
+                if (changes.remove_labels) updated.labels = current.labels.filter((l: string) => !changes.remove_labels.includes(l));
+                store.set(id, updated);
+                return updated;
+            }),
+            addDependency: mock(async (child: string, parent: string) => {
+                const c = store.get(child);
+                c.blockers = [...(c.blockers || []), parent];
+            }),
+            list: mock(async (status: string) => Array.from(store.values()).filter(b => b.status === status)),
+            ready: mock(async () => Array.from(store.values()).filter(b =>
+                b.status === 'open' && (b.blockers || []).every((id: string) => store.get(id)?.status === 'done'))),
+        };
+        setBeadsInstance(beadsMock);
+    });
+
+    afterEach(async () => {
+        await conductor?.stop();
+        conductor = undefined;
+        queue.close();
+        await rm(testRoot, { recursive: true, force: true });
+    });
+
+    afterAll(async () => {
+        clearGlobalSingleton('beads_client');
+        clearGlobalSingleton('work_queue');
+        clearGlobalSingleton('formula_registry');
+        resetConfig();
+    });
+
+    const finish = async (beadId: string, output: unknown) => {
+        queue.enqueue(beadId, 1, 'worker');
+        const ticket = queue.claim('worker-1', 'worker');
+        // biome-ignore lint/style/noNonNullAssertion: test
+        queue.complete(ticket!.id, output);
+        await beadsMock.update(beadId, { status: 'done' });
+    };
+
+    // biome-ignore lint/suspicious/noExplicitAny: mock
+    const find = (predicate: (b: any) => boolean) => Array.from(store.values()).find(predicate);
+    const byTitle = (title: string) => Array.from(store.values()).find(b => b.title === title);
+
+    it('should cook the nested formula at runtime and expose its leaf outputs', async () => {
+        const moleculeId = await engine.instantiateFormula('release', {});
+        const placeholder = byTitle('Build package');
+        expect(placeholder.labels).toContain('subformula');
+        expect(placeholder.context).toEqual({ pkg: '{{steps.discover.output.name}}' });
+
+        await finish(byTitle('Pick package').id, { name: 'core' });
+        conductor = new Conductor(beadsMock);
+        // @ts-expect-error - access private for test
+        conductor.subFormulas = new SubFormulaService(beadsMock, engine);
+        // @ts-expect-error - access private for test
+        await conductor.cycleRouter();
+
+        const nested = find((b) => b.type === 'epic' && b.parent === moleculeId);
+        expect(nested.context.vars).toEqual({ pkg: 'core' });
+        const compile = byTitle('Compile core');
+        const pkg = byTitle('Package core');
+        expect(compile.parent).toBe(nested.id);
+        expect(store.get(placeholder.id).blockers).toEqual(expect.arrayContaining([compile.id, pkg.id]));
+        expect(store.get(placeholder.id).status).toBe('open');
+
+        await finish(compile.id, { ok: true });
+        await finish(pkg.id, { tarball: 'core-1.0.tgz' });
+        // @ts-expect-error - access private for test
+        await conductor.cycleRouter();
+
+        expect(store.get(placeholder.id).status).toBe('done');
+        const outputs = await getPiper().getStepOutputs(byTitle('Publish'), ['build']);
+        expect(outputs.build?.output).toEqual({ package: { tarball: 'core-1.0.tgz' } });
+    });
+
+    it('should fail the step when the nested formula cannot be cooked', async () => {
+        await engine.instantiateFormula('release', {});
+        await finish(byTitle('Pick package').id, {});
+
+        conductor = new Conductor(beadsMock);
+        // @ts-expect-error - access private for test
+        conductor.subFormulas = new SubFormulaService(beadsMock, engine);
+        // @ts-expect-error - access private for test
+        await conductor.cycleRouter();
+
+        const placeholder = byTitle('Build package');
+        expect(placeholder.status).toBe('done');
+        expect(placeholder.labels).toContain('failed');
+        expect(placeholder.acceptance_test).toContain("Could not instantiate formula 'build_pkg'");
+    });
+
+    it('should detect recursive composition', async () => {
+        await writeFile(join(formulasDir, 'ping.toml'), `
+formula = "ping"
+description = "Ping"
+
+[[steps]]
+id = "pong"
+title = "Pong"
+description = "Pong"
+uses = "pong"
+`);
+        await writeFile(join(formulasDir, 'pong.toml'), `
+formula = "pong"
+description = "Pong"
+
+[[steps]]
+id = "ping"
+title = "Ping"
+description = "Ping"
+uses = "ping"
+`);
+        await registry.loadAll();
+
+        expect(registry.validate('ping').map((i) => i.message)).toEqual(['Recursive formula composition: ping -> pong -> ping']);
+        expect(() => engine.planFormula('pong', {})).toThrow('Recursive formula composition: pong -> ping -> pong');
+        expect(registry.validate('release')).toEqual([]);
+    });
+});